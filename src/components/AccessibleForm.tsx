@@ -1,189 +1,369 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
 import { toast } from 'sonner';
 import FormHeader from './FormHeader';
-import PersonalInfoSection from './PersonalInfoSection';
-import MessageDetailsSection from './MessageDetailsSection';
-import NewsletterSection from './NewsletterSection';
+import FormSection from './FormSection';
 import SubmitSection from './SubmitSection';
-
-interface FormData {
-  firstName: string;
-  lastName: string;
-  email: string;
-  phone: string;
-  subject: string;
-  message: string;
-  newsletter: boolean;
-  contactMethod: string;
-  urgency: string;
+import DraftRestoreBanner from './DraftRestoreBanner';
+import FormStepIndicator from './FormStepIndicator';
+import StepNavigation from './StepNavigation';
+import ReviewSummary from './ReviewSummary';
+import { contactFormSchema } from '@/forms/contact-form';
+import {
+  getFieldLabels,
+  getInitialValues,
+  getSchemaFields,
+  localizeSchema,
+  normalizeValues,
+  type FieldSchema,
+  type FieldValue,
+  type FormErrors,
+  type FormSchema
+} from '@/lib/form-schema';
+import { getConditionChanges, getVisibleValues, type ConditionChange } from '@/lib/conditions';
+import { SubmissionError, getAttachedFiles, type SubmissionTransport } from '@/lib/submission';
+import { getFileUploadProgress, type UploadProgress } from '@/lib/files';
+import { defaultTransport } from '@/lib/default-transport';
+import { getResponseDeadline } from '@/lib/sla';
+import { formatZonedDateTime } from '@/lib/i18n';
+import { useFormDraft } from '@/hooks/use-form-draft';
+import { useFormWizard } from '@/hooks/use-form-wizard';
+import { useFormState, type ValidationTiming } from '@/hooks/use-form-state';
+import { useI18n } from '@/hooks/use-i18n';
+
+interface AccessibleFormProps {
+  /** Schema describing the sections and fields to render - its text may be message keys */
+  schema?: FormSchema;
+  /** Sends the validated values to the backend */
+  transport?: SubmissionTransport;
+  /** Autosave in-progress values to localStorage and offer them on return */
+  autosaveDraft?: boolean;
+  /** Render all sections at once, or one step at a time with Next/Back navigation */
+  mode?: 'single' | 'wizard';
+  /** Show a summary of every answer for confirmation before sending */
+  reviewBeforeSubmit?: boolean;
+  /** When fields are validated while the user fills in the form */
+  validateOn?: ValidationTiming;
 }
 
-interface FormErrors {
-  [key: string]: string;
-}
+/**
+ * Moves focus to the first field, in form order, that has an error
+ */
+const focusFirstError = (errors: FormErrors, fields: FieldSchema[]) => {
+  const firstErrorName = fields.find(field => errors[field.name])?.name ?? Object.keys(errors)[0];
+  const firstErrorField = firstErrorName ? document.getElementById(firstErrorName) : null;
+
+  if (firstErrorField) {
+    firstErrorField.focus();
+    firstErrorField.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }
+};
+
+const conditionChangeMessages: Record<ConditionChange['change'], string> = {
+  shown: 'conditions.shown',
+  hidden: 'conditions.hidden',
+  required: 'conditions.required',
+  optional: 'conditions.optional'
+};
 
 /**
  * Main accessible contact form component with proper landmark structure
- * Orchestrates all form sections and handles form submission
+ * Renders the sections of a form schema and handles form submission
  */
-const AccessibleForm = () => {
-  const [formData, setFormData] = useState<FormData>({
-    firstName: '',
-    lastName: '',
-    email: '',
-    phone: '',
-    subject: '',
-    message: '',
-    newsletter: false,
-    contactMethod: 'email',
-    urgency: 'medium'
-  });
-
-  const [errors, setErrors] = useState<FormErrors>({});
+const AccessibleForm: React.FC<AccessibleFormProps> = ({
+  schema: sourceSchema = contactFormSchema,
+  transport = defaultTransport,
+  autosaveDraft = true,
+  mode = 'single',
+  reviewBeforeSubmit = false,
+  validateOn = 'onTouched'
+}) => {
+  const { locale, t } = useI18n();
+  const schema = useMemo(() => localizeSchema(sourceSchema, t), [sourceSchema, t]);
+  const fields = useMemo(() => getSchemaFields(schema), [schema]);
+  const fieldLabels = useMemo(() => getFieldLabels(schema), [schema]);
+  const initialValues = useMemo(() => getInitialValues(sourceSchema), [sourceSchema]);
+  const {
+    values: formData,
+    errors,
+    pending,
+    setFieldValue,
+    setValues: setFormData,
+    handleBlur,
+    validateAsync,
+    replaceErrors,
+    reset
+  } = useFormState({ fields, initialValues, validateOn });
+
+  const [formErrors, setFormErrors] = useState<string[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [viewAnnouncement, setViewAnnouncement] = useState('');
+  const [conditionAnnouncement, setConditionAnnouncement] = useState('');
+  // Files being sent with the current submission and how far the body has got
+  const [upload, setUpload] = useState<{ files: File[]; progress: UploadProgress } | null>(null);
   const formRef = useRef<HTMLFormElement>(null);
+  const stepHeadingRef = useRef<HTMLHeadingElement>(null);
+  const reviewHeadingRef = useRef<HTMLHeadingElement>(null);
+  // Field to focus once the step or view that contains it has rendered
+  const pendingFocusRef = useRef<string | null>(null);
+  const hasChangedViewRef = useRef(false);
+
+  const uploadProgress = useMemo(() => {
+    if (!upload) return undefined;
+    const percentages = getFileUploadProgress(upload.files, upload.progress);
+    return new Map(upload.files.map((file, index) => [file, percentages[index]]));
+  }, [upload]);
+
+  const wizard = useFormWizard(schema, mode === 'wizard');
+
+  const { pendingDraft, restoreDraft, discardDraft } = useFormDraft({
+    formId: schema.id,
+    fields,
+    values: formData,
+    initialValues,
+    enabled: autosaveDraft
+  });
 
-  const validateForm = (): boolean => {
-    const newErrors: FormErrors = {};
+  const focusFirstField = () => {
+    document.getElementById(fields[0].name)?.focus();
+  };
 
-    if (!formData.firstName.trim()) {
-      newErrors.firstName = 'First name is required';
-    }
+  // Move focus to the new step or review heading, or to the field that sent us there
+  useEffect(() => {
+    if (!hasChangedViewRef.current) return;
 
-    if (!formData.lastName.trim()) {
-      newErrors.lastName = 'Last name is required';
-    }
+    const pendingField = pendingFocusRef.current;
+    pendingFocusRef.current = null;
 
-    if (!formData.email.trim()) {
-      newErrors.email = 'Email address is required';
-    } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
-      newErrors.email = 'Please enter a valid email address';
-    }
+    const heading = isReviewing ? reviewHeadingRef.current : stepHeadingRef.current;
+    const target = pendingField ? document.getElementById(pendingField) : heading;
+    target?.focus();
+  }, [wizard.stepIndex, isReviewing]);
 
-    if (!formData.subject.trim()) {
-      newErrors.subject = 'Subject is required';
+  const changeStep = (index: number, focusField?: string) => {
+    if (index === wizard.stepIndex) {
+      if (focusField) document.getElementById(focusField)?.focus();
+      return;
     }
 
-    if (!formData.message.trim()) {
-      newErrors.message = 'Message is required';
-    } else if (formData.message.trim().length < 10) {
-      newErrors.message = 'Message must be at least 10 characters long';
-    }
+    hasChangedViewRef.current = true;
+    pendingFocusRef.current = focusField ?? null;
+    wizard.goToStep(index);
+    setViewAnnouncement(t('steps.positionWithTitle', {
+      current: index + 1,
+      total: wizard.steps.length,
+      title: wizard.steps[index].title
+    }));
+  };
 
-    if (formData.phone && !/^[\d\s\-\+\(\)]+$/.test(formData.phone)) {
-      newErrors.phone = 'Please enter a valid phone number';
+  /**
+   * Leaves the review summary and focuses the chosen field, switching to its step in wizard mode
+   */
+  const handleEditField = (name: string) => {
+    const fieldStep = wizard.findStepOfField(name);
+
+    if (fieldStep >= 0 && fieldStep !== wizard.stepIndex) {
+      changeStep(fieldStep, name);
+    } else {
+      hasChangedViewRef.current = true;
+      pendingFocusRef.current = name;
     }
+    setIsReviewing(false);
+  };
 
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+  const handleLeaveReview = () => {
+    hasChangedViewRef.current = true;
+    setIsReviewing(false);
+    setViewAnnouncement(t('review.closed'));
   };
 
-  const handleInputChange = (name: string, value: string | boolean) => {
-    setFormData(prev => ({ ...prev, [name]: value }));
-    
-    // Clear error when user starts typing
-    if (errors[name]) {
-      setErrors(prev => ({ ...prev, [name]: '' }));
+  const handleRestoreDraft = () => {
+    setFormData(restoreDraft(formData));
+    toast.info(t('draft.restored'));
+    focusFirstField();
+  };
+
+  const handleDiscardDraft = () => {
+    discardDraft();
+    toast.info(t('draft.discarded'));
+    focusFirstField();
+  };
+
+  /**
+   * Focuses the first field with an error, switching to its step in wizard mode
+   */
+  const revealErrors = (currentErrors: FormErrors) => {
+    const firstErrorName = fields.find(field => currentErrors[field.name])?.name;
+    const errorStep = firstErrorName ? wizard.findStepOfField(firstErrorName) : -1;
+
+    if (errorStep >= 0 && errorStep !== wizard.stepIndex) {
+      changeStep(errorStep, firstErrorName);
+    } else {
+      focusFirstError(currentErrors, fields);
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  /**
+   * Focuses the first invalid field and summarises every error in a toast
+   */
+  const reportValidationErrors = (currentErrors: FormErrors) => {
+    // Focus first error field for better accessibility
+    revealErrors(currentErrors);
+    
+    // Create a more graceful error message
+    const errorCount = Object.keys(currentErrors).length;
+    
+    let errorMessage = `${t('errors.summary', { count: errorCount })}\n`;
+    errorMessage += Object.entries(currentErrors)
+      .map(([field, error]) => `• ${fieldLabels[field] || field}: ${error}`)
+      .join('\n');
     
-    if (!validateForm()) {
-      // Get the current errors from validateForm
-      const currentErrors: FormErrors = {};
+    toast.error(errorMessage);
+  };
 
-      if (!formData.firstName.trim()) {
-        currentErrors.firstName = 'First name is required';
-      }
+  const handleInputChange = (name: string, value: FieldValue) => {
+    // Fields shown, hidden, required or made optional by this answer
+    const changes = getConditionChanges(fields, formData, { ...formData, [name]: value });
+    if (changes.length > 0) {
+      setConditionAnnouncement(
+        changes.map(({ field, change }) => t(conditionChangeMessages[change], { label: fieldLabels[field.name] })).join(' ')
+      );
+    }
 
-      if (!formData.lastName.trim()) {
-        currentErrors.lastName = 'Last name is required';
-      }
+    // Choosing an option completes the answer, typing does not until the field is left
+    const field = fields.find(f => f.name === name);
+    const isChoice = field?.type === 'select' || field?.type === 'radio' || field?.type === 'checkbox' || field?.type === 'file' || field?.type === 'timeslot';
 
-      if (!formData.email.trim()) {
-        currentErrors.email = 'Email address is required';
-      } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
-        currentErrors.email = 'Please enter a valid email address';
-      }
+    setFieldValue(name, value, {
+      alsoRecheck: changes.map(change => change.field.name),
+      touch: isChoice
+    });
+  };
 
-      if (!formData.subject.trim()) {
-        currentErrors.subject = 'Subject is required';
-      }
+  /**
+   * Validates only the current step's fields and moves on when they pass
+   */
+  const handleNext = async () => {
+    if (!wizard.currentStep || isValidating) return;
 
-      if (!formData.message.trim()) {
-        currentErrors.message = 'Message is required';
-      } else if (formData.message.trim().length < 10) {
-        currentErrors.message = 'Message must be at least 10 characters long';
-      }
+    setIsValidating(true);
+    const stepErrors = await validateAsync(wizard.currentStep.fields);
+    setIsValidating(false);
 
-      if (formData.phone && !/^[\d\s\-\+\(\)]+$/.test(formData.phone)) {
-        currentErrors.phone = 'Please enter a valid phone number';
-      }
+    if (Object.keys(stepErrors).length > 0) {
+      reportValidationErrors(stepErrors);
+      return;
+    }
 
-      // Focus first error field for better accessibility
-      const errorFields = Object.keys(currentErrors);
-      if (errorFields.length > 0) {
-        const firstErrorField = document.getElementById(errorFields[0]);
-        if (firstErrorField) {
-          firstErrorField.focus();
-          firstErrorField.scrollIntoView({ behavior: 'smooth', block: 'center' });
-        }
-      }
-      
-      // Create a more graceful error message
-      const errorCount = errorFields.length;
-      const fieldLabels: { [key: string]: string } = {
-        firstName: 'First Name',
-        lastName: 'Last Name',
-        email: 'Email',
-        phone: 'Phone',
-        subject: 'Subject',
-        message: 'Message'
-      };
-      
-      let errorMessage = `Please fix the following ${errorCount === 1 ? 'issue' : 'issues'}:\n`;
-      errorMessage += Object.entries(currentErrors)
-        .map(([field, error]) => `• ${fieldLabels[field] || field}: ${error}`)
-        .join('\n');
-      
-      toast.error(errorMessage);
+    changeStep(wizard.stepIndex + 1);
+  };
+
+  const handleBack = () => {
+    changeStep(wizard.stepIndex - 1);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Pressing Enter before the last step advances instead of submitting
+    if (!wizard.isLastStep) {
+      handleNext();
+      return;
+    }
+
+    if (isValidating || isSubmitting) return;
+    setFormErrors([]);
+    
+    // Wait for pending async checks so nothing is sent before they settle
+    setIsValidating(true);
+    const currentErrors = await validateAsync();
+    setIsValidating(false);
+
+    if (Object.keys(currentErrors).length > 0) {
+      setIsReviewing(false);
+      reportValidationErrors(currentErrors);
+      return;
+    }
+
+    // Ask the user to confirm their answers before anything is sent
+    if (reviewBeforeSubmit && !isReviewing) {
+      hasChangedViewRef.current = true;
+      setIsReviewing(true);
+      setViewAnnouncement(t('review.opened'));
       return;
     }
 
     setIsSubmitting(true);
     
     // Announce form submission start
-    toast.info('Submitting your message...');
+    toast.info(t('submission.started'));
     
-    // Simulate form submission
     try {
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      toast.success('Thank you! Your message has been submitted successfully. We will respond according to your selected urgency level.');
+      // Answers to hidden fields are not sent
+      const values = normalizeValues(fields, getVisibleValues(fields, formData));
+      const files = getAttachedFiles(values);
+      if (files.length > 0) {
+        setUpload({ files, progress: { loaded: 0, total: 0 } });
+      }
+
+      // The deadline runs from when the message is sent, not from when the form was opened
+      const urgency = schema.sla ? values[schema.sla.field] : undefined;
+      const dueBy = schema.sla && typeof urgency === 'string'
+        ? getResponseDeadline(schema.sla, urgency, new Date())
+        : undefined;
+
+      await transport.submit(
+        { formId: schema.id, values, responseDueBy: dueBy?.toISOString() },
+        { onUploadProgress: progress => setUpload({ files, progress }) }
+      );
+      // Shown on the clock of the business hours the deadline is counted in, not the user's
+      toast.success(dueBy && schema.sla
+        ? t('submission.succeededWithDeadline', {
+          dueBy: formatZonedDateTime(dueBy, locale.code, schema.sla.businessHours.timeZone)
+        })
+        : t('submission.succeeded'));
       
-      // Reset form and announce completion
-      setFormData({
-        firstName: '',
-        lastName: '',
-        email: '',
-        phone: '',
-        subject: '',
-        message: '',
-        newsletter: false,
-        contactMethod: 'email',
-        urgency: 'medium'
-      });
+      // Reset form, drop the saved draft and announce completion
+      reset();
+      setIsReviewing(false);
+      discardDraft();
       
       // Focus back to first field after successful submission
-      const firstField = document.getElementById('firstName');
-      if (firstField) {
-        firstField.focus();
+      if (wizard.steps.length > 0) {
+        changeStep(0, fields[0].name);
+      } else {
+        focusFirstField();
       }
     } catch (error) {
-      toast.error('An error occurred while submitting your message. Please try again or contact us directly.');
+      if (!(error instanceof SubmissionError)) {
+        toast.error(t('submission.failed'));
+        return;
+      }
+
+      // Show server-side field errors in the same place as client validation.
+      // Errors for fields this form does not render are shown with the form-level ones.
+      const serverErrors: FormErrors = {};
+      const unmatched = [...error.formErrors];
+
+      for (const [name, message] of Object.entries(error.fieldErrors)) {
+        if (fields.some(field => field.name === name)) {
+          serverErrors[name] = message;
+        } else {
+          unmatched.push(message);
+        }
+      }
+
+      replaceErrors(serverErrors);
+      setFormErrors(unmatched);
+      if (Object.keys(serverErrors).length > 0) {
+        setIsReviewing(false);
+      }
+      revealErrors(serverErrors);
+      toast.error(t(error.message, { status: error.status ?? '' }));
     } finally {
       setIsSubmitting(false);
+      setUpload(null);
     }
   };
 
@@ -191,59 +371,116 @@ const AccessibleForm = () => {
     <>
       {/* Skip link for keyboard users */}
       <a 
-        href="#contact-form" 
-        className="sr-only focus:not-sr-only focus:absolute focus:top-4 focus:left-4 bg-blue-600 text-white px-4 py-2 rounded-lg z-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+        href={`#${schema.id}`}
+        className="sr-only focus:not-sr-only focus:absolute focus:top-4 focus:start-4 bg-blue-600 text-white px-4 py-2 rounded-lg z-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
       >
-        Skip to contact form
+        {t('form.skipLink')}
       </a>
 
       {/* Header section as a banner landmark at top level */}
       <header role="banner">
-        <FormHeader />
+        <FormHeader title={schema.title} description={schema.description} />
       </header>
 
       {/* Main content area */}
       <main role="main">
         <form 
           ref={formRef}
-          id="contact-form"
+          id={schema.id}
           onSubmit={handleSubmit} 
           noValidate 
-          aria-label="Contact form for submitting inquiries"
+          aria-label={schema.ariaLabel}
           aria-describedby="form-instructions"
           className="space-y-8"
         >
           <div id="form-instructions" className="sr-only">
-            This form allows you to send us a message. Navigate through fields using Tab key. Required fields are marked with asterisk and will be announced by screen readers.
+            {t('form.instructions')}
           </div>
 
-          <PersonalInfoSection
-            formData={formData}
-            errors={errors}
-            onInputChange={handleInputChange}
-          />
-
-          <MessageDetailsSection
-            formData={formData}
-            errors={errors}
-            onInputChange={handleInputChange}
-          />
-
-          <NewsletterSection
-            checked={formData.newsletter}
-            onChange={(checked) => handleInputChange('newsletter', checked)}
-          />
-
-          <SubmitSection isSubmitting={isSubmitting} />
+          {pendingDraft && (
+            <DraftRestoreBanner
+              savedAt={pendingDraft.savedAt}
+              onRestore={handleRestoreDraft}
+              onDiscard={handleDiscardDraft}
+            />
+          )}
+
+          {isReviewing ? (
+            <ReviewSummary
+              sections={schema.sections}
+              values={formData}
+              fieldLabels={fieldLabels}
+              onEdit={handleEditField}
+              headingRef={reviewHeadingRef}
+            />
+          ) : (
+            <>
+              {wizard.currentStep && (
+                <>
+                  <FormStepIndicator
+                    steps={wizard.steps.map(step => step.title)}
+                    currentStep={wizard.stepIndex}
+                  />
+                  <h2
+                    ref={stepHeadingRef}
+                    tabIndex={-1}
+                    className="text-sm font-semibold uppercase tracking-wide text-blue-700 focus:outline-none"
+                  >
+                    {t('steps.position', { current: wizard.stepIndex + 1, total: wizard.steps.length })}
+                    <span className="sr-only">: {wizard.currentStep.title}</span>
+                  </h2>
+                </>
+              )}
+
+              {wizard.visibleSections.map(section => (
+                <FormSection
+                  key={section.id}
+                  section={section}
+                  formData={formData}
+                  errors={errors}
+                  pending={pending}
+                  uploadProgress={uploadProgress}
+                  onInputChange={handleInputChange}
+                  onInputBlur={handleBlur}
+                />
+              ))}
+            </>
+          )}
+
+          {/* Server messages that do not belong to a single field */}
+          {formErrors.length > 0 && (
+            <div role="alert" className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+              <ul className="list-disc list-inside space-y-1">
+                {formErrors.map(message => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {isReviewing || wizard.currentStep ? (
+            <StepNavigation
+              isFirstStep={!isReviewing && wizard.isFirstStep}
+              isLastStep={isReviewing || wizard.isLastStep}
+              isSubmitting={isSubmitting}
+              isValidating={isValidating}
+              onBack={isReviewing ? handleLeaveReview : handleBack}
+              onNext={handleNext}
+            />
+          ) : (
+            <SubmitSection isSubmitting={isSubmitting} isValidating={isValidating} />
+          )}
 
           {/* Enhanced Screen reader announcements */}
           <div aria-live="polite" aria-atomic="true" className="sr-only">
+            {viewAnnouncement && <p>{viewAnnouncement}</p>}
+            {conditionAnnouncement && <p>{conditionAnnouncement}</p>}
             {Object.keys(errors).length > 0 && (
               <div>
-                <p>Form validation failed. Please review and correct the following errors:</p>
+                <p>{t('errors.announcement', { count: Object.keys(errors).length })}</p>
                 <ul>
                   {Object.entries(errors).map(([field, error]) => (
-                    <li key={field}>{field}: {error}</li>
+                    <li key={field}>{fieldLabels[field] || field}: {error}</li>
                   ))}
                 </ul>
               </div>
@@ -252,8 +489,11 @@ const AccessibleForm = () => {
 
           {/* Status announcements */}
           <div aria-live="assertive" aria-atomic="true" className="sr-only">
+            {isValidating && (
+              <p>{t('status.checking')}</p>
+            )}
             {isSubmitting && (
-              <p>Form is being submitted. Please wait.</p>
+              <p>{t('status.submitting')}</p>
             )}
           </div>
         </form>
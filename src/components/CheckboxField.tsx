@@ -0,0 +1,48 @@
+
+import React from 'react';
+
+interface CheckboxFieldProps {
+  /** Unique identifier for the checkbox */
+  id: string;
+  /** Display label for the checkbox */
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  /** Longer description shown under the label */
+  description?: string;
+}
+
+/**
+ * Checkbox field component
+ * Renders a single checkbox with its label and description
+ */
+const CheckboxField: React.FC<CheckboxFieldProps> = ({
+  id,
+  label,
+  checked,
+  onChange,
+  description
+}) => {
+  return (
+    <label className="flex items-start cursor-pointer group focus-within:ring-2 focus-within:ring-green-500 focus-within:ring-offset-2 rounded-lg p-2 -m-2">
+      <input
+        id={id}
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        className="h-5 w-5 text-green-600 focus:ring-2 focus:ring-green-500 focus:ring-offset-2 mt-0.5 border-gray-300 rounded"
+        aria-describedby={description ? `${id}-desc` : undefined}
+      />
+      <div className="ms-4">
+        <span className="text-gray-900 font-medium group-hover:text-gray-700">{label}</span>
+        {description && (
+          <p id={`${id}-desc`} className="text-sm text-gray-600 mt-1">
+            {description}
+          </p>
+        )}
+      </div>
+    </label>
+  );
+};
+
+export default CheckboxField;
@@ -1,5 +1,17 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { ChevronDown, Check } from 'lucide-react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { AlertCircle, ChevronDown, Check, Loader2, X } from 'lucide-react';
+import { useI18n } from '@/hooks/use-i18n';
+import { getArrowKeyDelta } from '@/lib/direction';
+import { useTypeAhead } from '@/hooks/use-type-ahead';
+import { useOptionLoader } from '@/hooks/use-option-loader';
+import {
+  filterOptions,
+  findEnabledIndex,
+  findTypeAheadMatch,
+  groupOptions,
+  type OptionLoader
+} from '@/lib/options';
+import { getScrollTopForOption, getVirtualListLayout, getVisibleRange } from '@/lib/virtual-list';
 
 /**
  * Option interface for select dropdown items
@@ -9,36 +21,99 @@ interface Option {
   value: string;
   /** Display label for the option */
   label: string;
+  /** Heading the option is listed under - options of a group should be adjacent */
+  group?: string;
+  /** Whether the option is shown but cannot be selected */
+  disabled?: boolean;
 }
 
+/** Distance from the end of the list at which the next page of remote options loads */
+const LOAD_MORE_THRESHOLD_PX = 48;
+
+/** Lists longer than this render only the options scrolled into view */
+const VIRTUALIZE_THRESHOLD = 100;
+
+/** Row heights of virtualized lists - options are truncated to a single line to keep them fixed */
+const OPTION_HEIGHT_PX = 48;
+const GROUP_HEADING_HEIGHT_PX = 32;
+
+/** Height of the open list, matching its max-h-60 class */
+const LIST_MAX_HEIGHT_PX = 240;
+
 /**
- * Props for the CustomSelect component
+ * Props shared by single and multiple selection
  */
-interface CustomSelectProps {
+interface BaseSelectProps {
   /** Unique identifier for the select element */
   id: string;
-  /** Currently selected value */
-  value: string;
-  /** Callback function called when selection changes */
-  onChange: (value: string) => void;
-  /** Array of available options */
+  /** Array of available options - ignored when `loadOptions` is set */
   options: Option[];
+  /** Loads options from a remote source page by page while the dropdown is open, filtering on the server */
+  loadOptions?: OptionLoader<Option>;
+  /** Identifies loaded options in the query cache - defaults to `id`; fields sharing a loader can share the key */
+  cacheKey?: string;
   /** Display label for the select field */
   label: string;
   /** Whether the field is required for form submission */
   required?: boolean;
   /** Additional help text to guide the user */
   helpText?: string;
-  /** Placeholder text when no option is selected */
+  /** Placeholder text when no option is selected - defaults to a translated "Select an option" */
   placeholder?: string;
+  /** Whether to show a filter input above the options - for long lists */
+  filterable?: boolean;
+  /** Whether to render only the options scrolled into view - defaults to on for lists over 100 options */
+  virtualize?: boolean;
+  /** Error message to display if validation fails */
+  error?: string;
+  /** Whether the select is unavailable - it cannot be focused or changed */
+  disabled?: boolean;
+  /** Whether the selection is shown but cannot be changed - it can still be focused and read */
+  readOnly?: boolean;
+  /** Callback function called when focus leaves the select, its filter and its chips */
+  onBlur?: () => void;
+}
+
+interface SingleSelectProps extends BaseSelectProps {
+  /** Whether several options can be chosen */
+  multiple?: false;
+  /** Currently selected value */
+  value: string;
+  /** Callback function called when selection changes */
+  onChange: (value: string) => void;
+}
+
+interface MultiSelectProps extends BaseSelectProps {
+  /** Whether several options can be chosen */
+  multiple: true;
+  /** Currently selected values, in the order they were chosen */
+  value: string[];
+  /** Callback function called with every selected value when selection changes */
+  onChange: (value: string[]) => void;
 }
 
+/**
+ * Props for the CustomSelect component
+ */
+type CustomSelectProps = SingleSelectProps | MultiSelectProps;
+
 /**
  * A fully accessible custom select dropdown component with keyboard navigation,
  * screen reader support, and consistent styling.
  * 
  * Features:
- * - Full keyboard navigation (Arrow keys, Enter, Escape, Home, End)
+ * - Full keyboard navigation (Arrow keys, Enter, Escape, Home, End); while open,
+ *   Left and Right move through the options in reading order
+ * - Type-ahead: typing the first characters of a label moves to that option
+ * - Optional filter input, option groups with headings, and disabled options
+ *   that keyboard navigation skips
+ * - Multiple selection: options toggle with Enter or Space and stay open,
+ *   Shift+Arrow keys, Shift+Space and Shift+click select ranges, Ctrl+A
+ *   selects everything, and chosen options are listed as removable chips
+ * - Remote options: pages load as the list is scrolled, with loading, empty
+ *   and error states, and results are cached through the app's QueryClient
+ * - Long lists render only the options in view, keeping the focused option
+ *   rendered for aria-activedescendant
  * - Screen reader announcements
  * - Focus management
  * - Click outside to close
@@ -47,146 +122,490 @@ interface CustomSelectProps {
  * @param props - The CustomSelect component props
  * @returns A fully accessible custom select component
  */
-const CustomSelect: React.FC<CustomSelectProps> = ({
-  id,
-  value,
-  onChange,
-  options,
-  label,
-  required = false,
-  helpText,
-  placeholder = "Select an option"
-}) => {
+const CustomSelect: React.FC<CustomSelectProps> = (props) => {
+  const {
+    id,
+    options,
+    label,
+    required = false,
+    helpText,
+    placeholder,
+    filterable = false,
+    virtualize,
+    error,
+    disabled = false,
+    readOnly = false,
+    onBlur,
+    multiple = false,
+    loadOptions,
+    cacheKey
+  } = props;
+  const { locale, t } = useI18n();
+  const isLocked = disabled || readOnly;
+
   // Component state
   const [isOpen, setIsOpen] = useState(false);
   const [focusedIndex, setFocusedIndex] = useState(-1);
   const [announcementText, setAnnouncementText] = useState('');
+  const [query, setQuery] = useState('');
+  const [listScroll, setListScroll] = useState({ top: 0, height: LIST_MAX_HEIGHT_PX });
+  const { type: typeAhead, isTyping } = useTypeAhead();
 
   // Refs for DOM manipulation and focus management
   const triggerRef = useRef<HTMLButtonElement>(null);
-  const listboxRef = useRef<HTMLUListElement>(null);
+  const popupRef = useRef<HTMLDivElement>(null);
+  const filterRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
   const optionRefs = useRef<(HTMLLIElement | null)[]>([]);
+  const chipButtonRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  // Option that range selection extends from - the last one toggled
+  const anchorValueRef = useRef<string>();
+
+  // Remote options are loaded while the dropdown is open and filtered by the loader
+  const loader = useOptionLoader(loadOptions, { cacheKey: cacheKey ?? id, query, enabled: isOpen });
+  const sourceOptions = loadOptions ? loader.options : options;
 
-  // Find the currently selected option
-  const selectedOption = options.find(option => option.value === value);
+  // Options seen so far, so chosen remote options keep their labels after the filter changes
+  const knownOptionsRef = useRef(new Map<string, Option>());
+  for (const option of loader.options) {
+    knownOptionsRef.current.set(option.value, option);
+  }
+
+  // Options matching the filter - focusedIndex and option ids refer to this list
+  const visibleOptions = useMemo(
+    () => (filterable && !loadOptions ? filterOptions(options, query, locale.code) : sourceOptions),
+    [filterable, loadOptions, options, sourceOptions, query, locale.code]
+  );
+  const sections = useMemo(() => groupOptions(visibleOptions), [visibleOptions]);
+
+  // Long lists only render the options around the scroll position
+  const isVirtual = virtualize ?? visibleOptions.length > VIRTUALIZE_THRESHOLD;
+  const layout = useMemo(
+    () => (isVirtual
+      ? getVirtualListLayout(sections, { optionHeight: OPTION_HEIGHT_PX, headingHeight: GROUP_HEADING_HEIGHT_PX })
+      : undefined),
+    [isVirtual, sections]
+  );
+  const [firstRendered, lastRendered] = layout
+    ? getVisibleRange(layout, listScroll.top, listScroll.height, LIST_MAX_HEIGHT_PX)
+    : [0, visibleOptions.length - 1];
+  // Remote lists of unknown length report -1, as ARIA asks
+  const setSize = loadOptions && loader.hasMore ? -1 : visibleOptions.length;
+
+  // Find the currently selected options
+  const selectedValues = Array.isArray(props.value) ? props.value : props.value ? [props.value] : [];
+  const selectedOptions = selectedValues.map(
+    selected => options.find(option => option.value === selected)
+      ?? knownOptionsRef.current.get(selected)
+      ?? { value: selected, label: selected }
+  );
+  const selectedOption = selectedOptions[0];
+
+  const isSelected = (option: Option) => selectedValues.includes(option.value);
+
+  /**
+   * Reports a new selection to the parent
+   */
+  const commit = (values: string[]) => {
+    if (props.multiple === true) {
+      props.onChange(values);
+    } else {
+      props.onChange(values[0] ?? '');
+    }
+  };
 
   // Update option refs array when options change
   useEffect(() => {
-    optionRefs.current = optionRefs.current.slice(0, options.length);
-  }, [options.length]);
+    optionRefs.current = optionRefs.current.slice(0, visibleOptions.length);
+  }, [visibleOptions.length]);
+
+  useEffect(() => {
+    chipButtonRefs.current = chipButtonRefs.current.slice(0, selectedValues.length);
+  }, [selectedValues.length]);
+
+  /**
+   * Returns the index to focus when opening: the selected option, or the first enabled one
+   */
+  const getInitialIndex = () => {
+    const selectedIndex = sourceOptions.findIndex(option => isSelected(option) && !option.disabled);
+    return selectedIndex >= 0 ? selectedIndex : findEnabledIndex(sourceOptions, -1, 1);
+  };
+
+  const openListbox = (index = getInitialIndex()) => {
+    setIsOpen(true);
+    setQuery('');
+    setFocusedIndex(index);
+    setAnnouncementText(
+      loadOptions && sourceOptions.length === 0 ? t('select.loading') : t('select.opened', { count: sourceOptions.length })
+    );
+  };
+
+  const closeListbox = (announcement = '') => {
+    setIsOpen(false);
+    setQuery('');
+    setAnnouncementText(announcement);
+    triggerRef.current?.focus();
+  };
 
   /**
    * Handles opening/closing the dropdown
    */
   const handleToggle = () => {
-    const willOpen = !isOpen;
-    setIsOpen(willOpen);
-    
-    if (willOpen) {
-      // When opening, focus on selected item or first item
-      const selectedIndex = options.findIndex(option => option.value === value);
-      setFocusedIndex(selectedIndex >= 0 ? selectedIndex : 0);
-      setAnnouncementText(`${options.length} options available. Use arrow keys to navigate.`);
+    if (isLocked) return;
+
+    if (isOpen) {
+      closeListbox();
     } else {
-      setAnnouncementText('');
+      openListbox();
     }
   };
 
+  /**
+   * Adds or removes an option in multiple selection
+   * @param option - The option to toggle
+   */
+  const toggleOption = (option: Option) => {
+    const wasSelected = isSelected(option);
+    const next = wasSelected
+      ? selectedValues.filter(selected => selected !== option.value)
+      : [...selectedValues, option.value];
+
+    anchorValueRef.current = option.value;
+    commit(next);
+    setAnnouncementText(
+      `${t(wasSelected ? 'select.removed' : 'select.added', { label: option.label })} ${t('select.count', { count: next.length })}`
+    );
+  };
+
+  /**
+   * Adds every enabled option from the range anchor to `toIndex` in multiple selection
+   * @param toIndex - Index within the visible options where the range ends
+   */
+  const selectRange = (toIndex: number) => {
+    const anchorIndex = visibleOptions.findIndex(option => option.value === anchorValueRef.current);
+    const fromIndex = anchorIndex >= 0 ? anchorIndex : toIndex;
+    const added = visibleOptions
+      .slice(Math.min(fromIndex, toIndex), Math.max(fromIndex, toIndex) + 1)
+      .filter(option => !option.disabled && !isSelected(option))
+      .map(option => option.value);
+    const next = [...selectedValues, ...added];
+
+    anchorValueRef.current = visibleOptions[fromIndex].value;
+    commit(next);
+    setAnnouncementText(
+      `${t('select.added', { label: visibleOptions[toIndex].label })} ${t('select.count', { count: next.length })}`
+    );
+  };
+
   /**
    * Handles option selection
-   * @param optionValue - The value of the selected option
+   * @param option - The selected option
    */
-  const handleSelect = (optionValue: string) => {
-    const selectedOption = options.find(opt => opt.value === optionValue);
-    onChange(optionValue);
-    setIsOpen(false);
-    triggerRef.current?.focus();
-    
-    if (selectedOption) {
-      setAnnouncementText(`Selected: ${selectedOption.label}`);
+  const handleSelect = (option: Option) => {
+    if (option.disabled) return;
+
+    if (multiple) {
+      toggleOption(option);
+      return;
+    }
+
+    commit([option.value]);
+    closeListbox(t('select.selected', { label: option.label }));
+  };
+
+  /**
+   * Handles clicks on an option - Shift+click selects a range in multiple selection
+   */
+  const handleOptionClick = (option: Option, index: number, shiftKey: boolean) => {
+    if (option.disabled) return;
+
+    setFocusedIndex(index);
+    if (multiple && shiftKey) {
+      selectRange(index);
+    } else {
+      handleSelect(option);
+    }
+  };
+
+  /**
+   * Removes a chosen option from its chip, keeping focus among the chips
+   * @param option - The option to remove
+   * @param chipIndex - Position of the option's chip
+   */
+  const handleRemove = (option: Option, chipIndex: number) => {
+    const next = selectedValues.filter(selected => selected !== option.value);
+    const nextFocus = chipButtonRefs.current[chipIndex + 1] ?? chipButtonRefs.current[chipIndex - 1] ?? triggerRef.current;
+
+    commit(next);
+    setAnnouncementText(`${t('select.removed', { label: option.label })} ${t('select.count', { count: next.length })}`);
+    nextFocus?.focus();
+  };
+
+  /**
+   * Handles Enter and Space: opens the dropdown, or chooses the focused option
+   * @param extendRange - Whether Shift was held, selecting a range in multiple selection
+   */
+  const activateFocused = (extendRange: boolean) => {
+    if (!isOpen) {
+      openListbox();
+    } else if (focusedIndex >= 0) {
+      if (multiple && extendRange) {
+        selectRange(focusedIndex);
+      } else {
+        handleSelect(visibleOptions[focusedIndex]);
+      }
     }
   };
 
   /**
-   * Handles keyboard navigation
+   * Moves focus with Shift+Arrow in multiple selection, selecting the range passed over
+   * @param step - 1 for the next option, -1 for the previous one
+   */
+  const extendSelection = (step: 1 | -1) => {
+    const index = findEnabledIndex(visibleOptions, focusedIndex, step);
+    if (index < 0) return;
+
+    if (!anchorValueRef.current && focusedIndex >= 0) {
+      anchorValueRef.current = visibleOptions[focusedIndex].value;
+    }
+    setFocusedIndex(index);
+    selectRange(index);
+  };
+
+  /**
+   * Moves keyboard focus to an option and announces it
+   * @param index - Index within the visible options
+   */
+  const moveFocus = (index: number) => {
+    if (index < 0) return;
+
+    setFocusedIndex(index);
+    setAnnouncementText(visibleOptions[index].label);
+
+    // Keyboard users reach the end of a paged list without scrolling it
+    if (index === visibleOptions.length - 1) {
+      loader.loadMore();
+    }
+  };
+
+  /**
+   * Moves to the option starting with the characters typed so far,
+   * opening the dropdown if needed
+   * @param char - The character just typed
+   */
+  const handleTypeAhead = (char: string) => {
+    const search = typeAhead(char);
+    const index = findTypeAheadMatch(visibleOptions, search, isOpen ? focusedIndex : getInitialIndex(), locale.code);
+    if (index < 0) return;
+
+    setIsOpen(true);
+    moveFocus(index);
+  };
+
+  /**
+   * Narrows the options to those matching the filter and focuses the first match
+   * @param nextQuery - The filter text
+   */
+  const handleFilterChange = (nextQuery: string) => {
+    setQuery(nextQuery);
+    anchorValueRef.current = undefined;
+    if (listRef.current) {
+      listRef.current.scrollTop = 0;
+    }
+    setListScroll(current => ({ ...current, top: 0 }));
+
+    // Remote matches are announced once they have loaded
+    if (loadOptions) {
+      setFocusedIndex(-1);
+      return;
+    }
+
+    const matches = filterOptions(options, nextQuery, locale.code);
+    setFocusedIndex(findEnabledIndex(matches, -1, 1));
+    setAnnouncementText(t('select.results', { count: matches.length }));
+  };
+
+  /**
+   * Tracks the scroll position of virtualized lists, and loads the next page
+   * of remote options when the list is scrolled near its end
+   */
+  const handleListScroll = (e: React.UIEvent<HTMLUListElement>) => {
+    const list = e.currentTarget;
+    if (layout) {
+      setListScroll({ top: list.scrollTop, height: list.clientHeight });
+    }
+    if (loadOptions && list.scrollTop + list.clientHeight >= list.scrollHeight - LOAD_MORE_THRESHOLD_PX) {
+      loader.loadMore();
+    }
+  };
+
+  /**
+   * Repeats a failed load and returns focus to where keyboard input is handled
+   */
+  const handleRetry = () => {
+    loader.retry();
+    (filterRef.current ?? triggerRef.current)?.focus();
+  };
+
+  /**
+   * Handles keyboard navigation for the trigger and the filter input
    * @param e - Keyboard event
    */
-  const handleKeyDown = (e: React.KeyboardEvent) => {
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLElement>) => {
+    if (isLocked) return;
+
+    // Characters, Space and Home/End edit the filter text while it has focus
+    const inFilter = e.currentTarget === filterRef.current;
+
     switch (e.key) {
-      case 'Enter':
       case ' ':
+        if (inFilter) break;
         e.preventDefault();
-        if (isOpen && focusedIndex >= 0) {
-          handleSelect(options[focusedIndex].value);
+        if (isTyping()) {
+          handleTypeAhead(' ');
         } else {
-          handleToggle();
+          activateFocused(e.shiftKey);
         }
         break;
+
+      case 'Enter':
+        e.preventDefault();
+        activateFocused(e.shiftKey);
+        break;
         
       case 'Escape':
+        if (isOpen) {
+          e.preventDefault();
+          // Multiple selection applies each toggle straight away, so there is nothing to cancel
+          closeListbox(multiple ? t('select.count', { count: selectedValues.length }) : t('select.cancelled'));
+        }
+        break;
+
+      case 'Tab':
         if (isOpen) {
           setIsOpen(false);
-          triggerRef.current?.focus();
-          setAnnouncementText('Selection cancelled');
+          setQuery('');
         }
         break;
         
       case 'ArrowDown':
         e.preventDefault();
         if (!isOpen) {
-          setIsOpen(true);
-          setFocusedIndex(0);
-          setAnnouncementText(`${options.length} options available. Use arrow keys to navigate.`);
+          openListbox();
+        } else if (multiple && e.shiftKey) {
+          extendSelection(1);
         } else {
-          const newIndex = Math.min(focusedIndex + 1, options.length - 1);
-          setFocusedIndex(newIndex);
-          setAnnouncementText(`${options[newIndex].label}`);
+          moveFocus(findEnabledIndex(visibleOptions, focusedIndex, 1));
         }
         break;
         
       case 'ArrowUp':
         e.preventDefault();
-        if (isOpen) {
-          const newIndex = Math.max(focusedIndex - 1, 0);
-          setFocusedIndex(newIndex);
-          setAnnouncementText(`${options[newIndex].label}`);
+        if (isOpen && multiple && e.shiftKey) {
+          extendSelection(-1);
+        } else if (isOpen) {
+          moveFocus(findEnabledIndex(visibleOptions, focusedIndex, -1));
+        }
+        break;
+        
+      case 'ArrowLeft':
+      case 'ArrowRight':
+        if (isOpen && !inFilter) {
+          e.preventDefault();
+          const delta = getArrowKeyDelta(e.key, locale.dir, { vertical: false });
+          moveFocus(findEnabledIndex(visibleOptions, focusedIndex, delta > 0 ? 1 : -1));
         }
         break;
         
       case 'Home':
-        if (isOpen) {
+        if (isOpen && !inFilter) {
           e.preventDefault();
-          setFocusedIndex(0);
-          setAnnouncementText(`${options[0].label}`);
+          moveFocus(findEnabledIndex(visibleOptions, -1, 1));
         }
         break;
         
       case 'End':
-        if (isOpen) {
+        if (isOpen && !inFilter) {
           e.preventDefault();
-          const lastIndex = options.length - 1;
-          setFocusedIndex(lastIndex);
-          setAnnouncementText(`${options[lastIndex].label}`);
+          moveFocus(findEnabledIndex(visibleOptions, visibleOptions.length, -1));
         }
         break;
+
+      default:
+        if (isOpen && multiple && !inFilter && e.key.toLowerCase() === 'a' && (e.ctrlKey || e.metaKey)) {
+          e.preventDefault();
+          const firstIndex = findEnabledIndex(visibleOptions, -1, 1);
+          const lastIndex = findEnabledIndex(visibleOptions, visibleOptions.length, -1);
+          if (firstIndex >= 0) {
+            anchorValueRef.current = visibleOptions[firstIndex].value;
+            selectRange(lastIndex);
+          }
+        } else if (!inFilter && e.key.length === 1 && !e.altKey && !e.ctrlKey && !e.metaKey) {
+          e.preventDefault();
+          handleTypeAhead(e.key);
+        }
     }
   };
 
-  // Scroll focused option into view
+  // Move focus into the filter input when the dropdown opens
+  useEffect(() => {
+    if (isOpen && filterable) {
+      filterRef.current?.focus();
+    }
+  }, [isOpen, filterable]);
+
+  // Announce remote options once they arrive and focus the first one if nothing is focused
+  useEffect(() => {
+    if (!loadOptions || !isOpen || loader.isLoading) return;
+
+    if (loader.isError) {
+      setAnnouncementText(t('select.loadFailed'));
+      return;
+    }
+
+    setAnnouncementText(t('select.loaded', { count: loader.options.length }));
+    setFocusedIndex(current => (current >= 0 ? current : findEnabledIndex(loader.options, -1, 1)));
+  }, [loadOptions, isOpen, loader.isLoading, loader.isError, loader.options, t]);
+
+  // A first page too short to scroll could never load the next one
+  useEffect(() => {
+    const list = listRef.current;
+    if (isOpen && list && list.scrollHeight <= list.clientHeight && loader.hasMore) {
+      loader.loadMore();
+    }
+  });
+
+  // A closed list starts from the top when it opens again
+  useEffect(() => {
+    if (!isOpen) {
+      setListScroll({ top: 0, height: LIST_MAX_HEIGHT_PX });
+    }
+  }, [isOpen]);
+
+  // Scroll focused option into view - virtualized lists compute the position,
+  // since the option may not be rendered yet
   useEffect(() => {
-    if (isOpen && focusedIndex >= 0 && optionRefs.current[focusedIndex]) {
+    if (!isOpen || focusedIndex < 0) return;
+
+    if (layout) {
+      const list = listRef.current;
+      if (list) {
+        list.scrollTop = getScrollTopForOption(layout, focusedIndex, list.scrollTop, list.clientHeight);
+      }
+    } else {
       optionRefs.current[focusedIndex]?.scrollIntoView({
         block: 'nearest'
       });
     }
-  }, [focusedIndex, isOpen]);
+  }, [focusedIndex, isOpen, layout]);
 
   // Handle clicking outside to close dropdown
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (triggerRef.current && !triggerRef.current.contains(event.target as Node) &&
-          listboxRef.current && !listboxRef.current.contains(event.target as Node)) {
+          popupRef.current && !popupRef.current.contains(event.target as Node)) {
         setIsOpen(false);
+        setQuery('');
       }
     };
 
@@ -199,16 +618,71 @@ const CustomSelect: React.FC<CustomSelectProps> = ({
   // Build describedBy attribute for accessibility
   const describedBy = [
     helpText ? `${id}-help` : '',
+    error ? `${id}-error` : '',
     `${id}-status`
   ].filter(Boolean).join(' ');
 
+  // Trigger classes for the disabled, read-only, error and default states
+  const stateClasses = disabled
+    ? 'border-gray-200 bg-gray-100 text-gray-500 cursor-not-allowed'
+    : readOnly
+    ? 'border-gray-200 bg-gray-50 cursor-default focus:ring-blue-500/20'
+    : error
+    ? 'border-red-300 bg-red-50/50 focus:border-red-500 focus:ring-red-500/20'
+    : 'border-gray-300 bg-white hover:border-gray-400 focus:ring-blue-500 focus:border-blue-500';
+
+  /**
+   * Reports a blur once focus has left every part of the select
+   */
+  const handleContainerBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+      onBlur?.();
+    }
+  };
+
+  // The element holding keyboard focus points screen readers at the focused option
+  const activeDescendant = isOpen && focusedIndex >= 0 ? `${id}-option-${focusedIndex}` : undefined;
+
+  // The focused option stays rendered wherever it is, so aria-activedescendant always resolves
+  const isRendered = (index: number) => (index >= firstRendered && index <= lastRendered) || index === focusedIndex;
+
+  const renderOption = (option: Option, index: number) => (
+    <li
+      key={option.value}
+      id={`${id}-option-${index}`}
+      ref={el => optionRefs.current[index] = el}
+      role="option"
+      aria-selected={isSelected(option)}
+      aria-disabled={option.disabled || undefined}
+      aria-setsize={setSize}
+      aria-posinset={index + 1}
+      style={layout && { top: layout.optionOffsets[index], height: OPTION_HEIGHT_PX }}
+      className={`px-4 py-3 flex items-center justify-between gap-2 transition-colors${layout ? ' absolute inset-x-0' : ''} ${
+        option.disabled
+          ? 'text-gray-400 cursor-not-allowed'
+          : focusedIndex === index
+          ? 'bg-blue-50 text-blue-900 cursor-pointer'
+          : isSelected(option)
+          ? 'bg-blue-100 text-blue-900 cursor-pointer'
+          : 'text-gray-900 hover:bg-gray-50 cursor-pointer'
+      }`}
+      onClick={(e) => handleOptionClick(option, index, e.shiftKey)}
+      onMouseEnter={() => !option.disabled && setFocusedIndex(index)}
+    >
+      <span className={layout ? 'truncate' : undefined}>{option.label}</span>
+      {isSelected(option) && (
+        <Check className="w-4 h-4 flex-shrink-0 text-blue-600" aria-hidden="true" />
+      )}
+    </li>
+  );
+
   return (
-    <div className="space-y-2">
-      {/* Field Label */}
-      <label htmlFor={id} className="block text-sm font-medium text-gray-900">
+    <div className="space-y-2" onBlur={handleContainerBlur}>
+      {/* Field Label - also names the listbox */}
+      <label id={`${id}-label`} htmlFor={id} className="block text-sm font-medium text-gray-900">
         {label}
         {required && (
-          <span className="text-red-500 ml-1" aria-label="required field">*</span>
+          <span className="text-red-500 ms-1" aria-label={t('field.requiredMarker')}>*</span>
         )}
       </label>
       
@@ -221,17 +695,27 @@ const CustomSelect: React.FC<CustomSelectProps> = ({
           role="combobox"
           onClick={handleToggle}
           onKeyDown={handleKeyDown}
-          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white hover:border-gray-400 transition-colors text-left flex items-center justify-between"
+          disabled={disabled}
+          className={`w-full px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 transition-colors text-start flex items-center justify-between ${stateClasses}`}
+          aria-labelledby={`${id}-label`}
           aria-haspopup="listbox"
           aria-expanded={isOpen}
+          aria-controls={isOpen ? `${id}-listbox` : undefined}
+          aria-activedescendant={filterable ? undefined : activeDescendant}
           aria-describedby={describedBy}
           aria-required={required}
+          aria-invalid={!!error}
+          aria-readonly={readOnly || undefined}
         >
           <span className={selectedOption ? 'text-gray-900' : 'text-gray-500'}>
-            {selectedOption ? selectedOption.label : placeholder}
+            {!selectedOption
+              ? placeholder ?? t('select.placeholder')
+              : multiple
+              ? t('select.count', { count: selectedValues.length })
+              : selectedOption.label}
           </span>
           <ChevronDown 
-            className={`w-5 h-5 text-gray-700 transition-transform duration-200 ${
+            className={`w-5 h-5 transition-transform duration-200 ${isLocked ? 'text-gray-400' : 'text-gray-700'} ${
               isOpen ? 'transform rotate-180' : ''
             }`}
             aria-hidden="true"
@@ -241,41 +725,140 @@ const CustomSelect: React.FC<CustomSelectProps> = ({
 
         {/* Dropdown Options */}
         {isOpen && (
-          <ul
-            ref={listboxRef}
-            role="listbox"
-            aria-labelledby={`${id}-label`}
-            aria-activedescendant={focusedIndex >= 0 ? `${id}-option-${focusedIndex}` : undefined}
-            className="absolute z-50 w-full mt-1 bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 overflow-auto"
-            tabIndex={-1}
+          <div
+            ref={popupRef}
+            className="absolute z-50 w-full mt-1 bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden"
           >
-            {options.map((option, index) => (
-              <li
-                key={option.value}
-                id={`${id}-option-${index}`}
-                ref={el => optionRefs.current[index] = el}
-                role="option"
-                aria-selected={option.value === value}
-                className={`px-4 py-3 cursor-pointer flex items-center justify-between transition-colors ${
-                  focusedIndex === index
-                    ? 'bg-blue-50 text-blue-900'
-                    : option.value === value
-                    ? 'bg-blue-100 text-blue-900'
-                    : 'text-gray-900 hover:bg-gray-50'
-                }`}
-                onClick={() => handleSelect(option.value)}
-                onMouseEnter={() => setFocusedIndex(index)}
+            {filterable && (
+              <div className="p-2 border-b border-gray-100">
+                <input
+                  ref={filterRef}
+                  type="search"
+                  value={query}
+                  onChange={(e) => handleFilterChange(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  placeholder={t('select.filterPlaceholder')}
+                  aria-label={t('select.filterLabel', { label })}
+                  aria-controls={`${id}-listbox`}
+                  aria-autocomplete="list"
+                  aria-activedescendant={activeDescendant}
+                  autoComplete="off"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500"
+                />
+              </div>
+            )}
+
+            {loadOptions && loader.isLoading ? (
+              <p className="px-4 py-3 text-gray-500 flex items-center gap-2">
+                <Loader2 className="w-4 h-4 flex-shrink-0 animate-spin" aria-hidden="true" />
+                {t('select.loading')}
+              </p>
+            ) : loadOptions && loader.isError && visibleOptions.length === 0 ? (
+              <div className="px-4 py-3 text-sm text-red-600 flex items-center justify-between gap-2">
+                <span>{t('select.loadFailed')}</span>
+                <button
+                  type="button"
+                  onClick={handleRetry}
+                  className="font-medium text-blue-700 underline underline-offset-2 rounded hover:text-blue-900 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                >
+                  {t('select.retry')}
+                </button>
+              </div>
+            ) : visibleOptions.length === 0 ? (
+              <p className="px-4 py-3 text-gray-500">{t(query ? 'select.noResults' : 'select.empty')}</p>
+            ) : (
+              <ul
+                ref={listRef}
+                onScroll={handleListScroll}
+                // Keep focus on the trigger or filter while clicking options
+                onMouseDown={(e) => e.preventDefault()}
+                id={`${id}-listbox`}
+                role="listbox"
+                aria-labelledby={`${id}-label`}
+                aria-multiselectable={multiple || undefined}
+                className={`max-h-60 overflow-auto${layout ? ' relative' : ''}`}
+                tabIndex={-1}
               >
-                <span>{option.label}</span>
-                {option.value === value && (
-                  <Check className="w-4 h-4 text-blue-600" aria-hidden="true" />
-                )}
-              </li>
-            ))}
-          </ul>
+                {sections.map((section, sectionIndex) => {
+                  const rendered = section.options.filter(({ index }) => isRendered(index));
+                  if (rendered.length === 0) return null;
+
+                  return section.group ? (
+                    <li key={`group-${sectionIndex}`} role="presentation">
+                      <div
+                        id={`${id}-group-${sectionIndex}`}
+                        style={layout && { top: layout.headingOffsets[sectionIndex], height: GROUP_HEADING_HEIGHT_PX }}
+                        className={`px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500${
+                          layout ? ' absolute inset-x-0 truncate' : ''
+                        }`}
+                      >
+                        {section.group}
+                      </div>
+                      <ul role="group" aria-labelledby={`${id}-group-${sectionIndex}`}>
+                        {rendered.map(({ option, index }) => renderOption(option, index))}
+                      </ul>
+                    </li>
+                  ) : (
+                    <React.Fragment key={`options-${sectionIndex}`}>
+                      {rendered.map(({ option, index }) => renderOption(option, index))}
+                    </React.Fragment>
+                  );
+                })}
+                {/* Gives virtualized lists their full scroll height */}
+                {layout && <li role="presentation" aria-hidden="true" style={{ height: layout.totalHeight }} />}
+              </ul>
+            )}
+
+            {/* Further pages of remote options */}
+            {loadOptions && loader.isLoadingMore && (
+              <p className="px-4 py-2 text-sm text-gray-500 flex items-center gap-2 border-t border-gray-100">
+                <Loader2 className="w-4 h-4 flex-shrink-0 animate-spin" aria-hidden="true" />
+                {t('select.loadingMore')}
+              </p>
+            )}
+            {loadOptions && loader.isError && visibleOptions.length > 0 && (
+              <div className="px-4 py-2 text-sm text-red-600 flex items-center justify-between gap-2 border-t border-gray-100">
+                <span>{t('select.loadFailed')}</span>
+                <button
+                  type="button"
+                  onClick={handleRetry}
+                  className="font-medium text-blue-700 underline underline-offset-2 rounded hover:text-blue-900 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                >
+                  {t('select.retry')}
+                </button>
+              </div>
+            )}
+          </div>
         )}
       </div>
 
+      {/* Selected Options as Removable Chips */}
+      {multiple && selectedOptions.length > 0 && (
+        <ul className="flex flex-wrap gap-2" aria-label={t('select.chipsLabel', { label })}>
+          {selectedOptions.map((option, chipIndex) => (
+            <li
+              key={option.value}
+              className={`inline-flex items-center gap-1 rounded-full border border-blue-200 bg-blue-50 ps-3 py-1 text-sm text-blue-900 ${
+                isLocked ? 'pe-3' : 'pe-1'
+              }`}
+            >
+              <span>{option.label}</span>
+              {!isLocked && (
+                <button
+                  ref={el => chipButtonRefs.current[chipIndex] = el}
+                  type="button"
+                  onClick={() => handleRemove(option, chipIndex)}
+                  aria-label={t('select.remove', { label: option.label })}
+                  className="rounded-full p-1 hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <X className="w-3 h-3" aria-hidden="true" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* Help Text */}
       {helpText && (
         <p id={`${id}-help`} className="text-sm text-gray-600">
@@ -283,6 +866,14 @@ const CustomSelect: React.FC<CustomSelectProps> = ({
         </p>
       )}
 
+      {/* Error Message */}
+      {error && (
+        <div id={`${id}-error`} className="text-sm text-red-600 flex items-center gap-2" role="alert" aria-live="polite">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+          <span>{error}</span>
+        </div>
+      )}
+
       {/* Screen Reader Status Announcements */}
       <div 
         id={`${id}-status`} 
@@ -0,0 +1,374 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, CalendarDays } from 'lucide-react';
+import type { Locale } from 'date-fns';
+import type { DateRange } from 'react-day-picker';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useI18n } from '@/hooks/use-i18n';
+import {
+  formatTypedDate,
+  isDisabledDay,
+  joinDateRange,
+  joinDateTime,
+  parseIsoDate,
+  parseTypedDate,
+  resolveDateLimit,
+  splitDateRange,
+  splitDateTime,
+  toIsoDate,
+  type DateConstraints
+} from '@/lib/dates';
+
+interface DateFieldProps {
+  /** Unique identifier for the field - given to the first text input */
+  id: string;
+  /** Display label for the field */
+  label: string;
+  /** A day, a day and a time of day, or a start and end day */
+  mode: 'date' | 'datetime' | 'daterange';
+  /** Current value as ISO text - see lib/dates */
+  value: string;
+  /** Callback function called when the value changes */
+  onChange: (value: string) => void;
+  /** Callback function called when focus leaves the field, or a complete answer is picked from the calendar */
+  onBlur?: () => void;
+  /** Error message to display if validation fails */
+  error?: string;
+  /** Whether the field is required for form submission */
+  required?: boolean;
+  /** Additional help text to guide the user */
+  helpText?: string;
+  /** Days the calendar offers - the same limits the field's date rule checks */
+  constraints?: DateConstraints;
+}
+
+/**
+ * Text of each input - a typed date, or the end date and time of day
+ */
+interface DateParts {
+  start: string;
+  end: string;
+  time: string;
+}
+
+type DateMode = DateFieldProps['mode'];
+
+// Day used to show the locale's date format, chosen so day and month cannot be confused
+const EXAMPLE_DATE = new Date(2024, 11, 31);
+
+/**
+ * Formats an ISO date as it is typed, keeping anything else as is
+ */
+const toText = (iso: string, dateLocale?: Locale) => {
+  const date = parseIsoDate(iso);
+  return date ? formatTypedDate(date, dateLocale) : iso;
+};
+
+/**
+ * Reads typed text as an ISO date when it can, keeping it as typed otherwise
+ */
+const fromText = (text: string, dateLocale?: Locale) => {
+  const date = parseTypedDate(text, dateLocale);
+  return date ? toIsoDate(date) : text.trim();
+};
+
+const toParts = (mode: DateMode, value: string, dateLocale?: Locale): DateParts => {
+  if (mode === 'daterange') {
+    const range = splitDateRange(value);
+    return range
+      ? { start: toText(range.start, dateLocale), end: toText(range.end, dateLocale), time: '' }
+      : { start: value, end: '', time: '' };
+  }
+  if (mode === 'datetime') {
+    const dateTime = splitDateTime(value);
+    return dateTime
+      ? { start: toText(dateTime.date, dateLocale), end: '', time: dateTime.time }
+      : { start: value, end: '', time: '' };
+  }
+  return { start: toText(value, dateLocale), end: '', time: '' };
+};
+
+const toValue = (mode: DateMode, { start, end, time }: DateParts, dateLocale?: Locale) =>
+  mode === 'daterange'
+    ? joinDateRange(fromText(start, dateLocale), fromText(end, dateLocale))
+    : mode === 'datetime'
+    ? joinDateTime(fromText(start, dateLocale), time)
+    : fromText(start, dateLocale);
+
+/**
+ * Date field component
+ * Takes a date, a date and time, or a date range, either typed in the
+ * locale's short format or picked from a calendar in a popover. Typed text is
+ * read as the user types and tidied up when they leave the input; text that
+ * is not a date is kept so validation can report it. The calendar only offers
+ * the days the field's constraints allow, follows the reading direction, and
+ * returns focus to its button when it closes.
+ */
+const DateField: React.FC<DateFieldProps> = ({
+  id,
+  label,
+  mode,
+  value,
+  onChange,
+  onBlur,
+  error,
+  required = false,
+  helpText,
+  constraints = {}
+}) => {
+  const { locale, t } = useI18n();
+  const { dateLocale } = locale;
+  const [isOpen, setIsOpen] = useState(false);
+  const [announcement, setAnnouncement] = useState('');
+
+  const [parts, setParts] = useState<DateParts>(() => toParts(mode, value, dateLocale));
+  const emittedRef = useRef(value);
+  const dateLocaleRef = useRef(dateLocale);
+
+  // Pick up values set from outside, e.g. a restored draft or a reset, and
+  // rewrite the typed text in the new format when the language changes
+  useEffect(() => {
+    if (value !== emittedRef.current || dateLocale !== dateLocaleRef.current) {
+      emittedRef.current = value;
+      dateLocaleRef.current = dateLocale;
+      setParts(toParts(mode, value, dateLocale));
+    }
+  }, [mode, value, dateLocale]);
+
+  const update = (changes: Partial<DateParts>) => {
+    const next = { ...parts, ...changes };
+    const nextValue = toValue(mode, next, dateLocale);
+    setParts(next);
+    emittedRef.current = nextValue;
+    onChange(nextValue);
+    return next;
+  };
+
+  /**
+   * Rewrites a typed date in the locale's format once the input is left
+   */
+  const tidyUp = (part: 'start' | 'end') => {
+    const date = parseTypedDate(parts[part], dateLocale);
+    if (date) {
+      setParts(prev => ({ ...prev, [part]: formatTypedDate(date, dateLocale) }));
+    }
+  };
+
+  const startDate = parseTypedDate(parts.start, dateLocale);
+  const endDate = parseTypedDate(parts.end, dateLocale);
+  const minDate = resolveDateLimit(constraints.min);
+  const maxDate = resolveDateLimit(constraints.max);
+
+  const handleSelectDay = (day: Date | undefined) => {
+    if (!day) return;
+
+    const next = update({ start: formatTypedDate(day, dateLocale) });
+    setIsOpen(false);
+    setAnnouncement(t('date.selected', { date: toIsoDate(day) }));
+    if (mode === 'date' || next.time) onBlur?.();
+  };
+
+  const handleSelectRange = (range: DateRange | undefined) => {
+    update({
+      start: range?.from ? formatTypedDate(range.from, dateLocale) : '',
+      end: range?.to ? formatTypedDate(range.to, dateLocale) : ''
+    });
+
+    if (range?.from && range.to) {
+      setIsOpen(false);
+      setAnnouncement(t('date.rangeSelected', { start: toIsoDate(range.from), end: toIsoDate(range.to) }));
+      onBlur?.();
+    }
+  };
+
+  /**
+   * Reports a blur once focus has left every part of the field - the
+   * calendar is rendered elsewhere in the page, so it counts while open
+   */
+  const handleContainerBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!isOpen && !e.currentTarget.contains(e.relatedTarget as Node)) {
+      onBlur?.();
+    }
+  };
+
+  // Build describedBy attribute for accessibility
+  const describedBy = [
+    `${id}-hint`,
+    helpText ? `${id}-help` : '',
+    error ? `${id}-error` : ''
+  ].filter(Boolean).join(' ');
+
+  const inputClasses = `w-full px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 transition-all duration-200 bg-white ${
+    error
+      ? 'border-red-300 focus:border-red-500 focus:ring-red-500/20 bg-red-50/50'
+      : 'border-gray-300 focus:border-blue-500 focus:ring-blue-500/20 hover:border-gray-400'
+  }`;
+
+  const inputProps = {
+    type: 'text',
+    autoComplete: 'off',
+    className: inputClasses,
+    'aria-required': required,
+    'aria-invalid': !!error,
+    'aria-describedby': describedBy
+  };
+
+  const subLabelClasses = 'block text-sm text-gray-700';
+
+  // Shared by the single day and range calendars
+  const calendarProps = {
+    initialFocus: true,
+    defaultMonth: startDate ?? minDate ?? maxDate,
+    fromDate: minDate,
+    toDate: maxDate,
+    disabled: (day: Date) => isDisabledDay(day, constraints.disabledDays),
+    locale: dateLocale,
+    dir: locale.dir,
+    labels: {
+      labelPrevious: () => t('date.previousMonth'),
+      labelNext: () => t('date.nextMonth')
+    },
+    classNames: {
+      nav_button_previous: 'absolute start-1',
+      nav_button_next: 'absolute end-1'
+    }
+  };
+
+  const calendarButton = (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="flex-shrink-0 self-end rounded-lg border border-gray-300 bg-white p-3 text-gray-700 hover:border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label={t('date.openCalendar', { label })}
+        >
+          <CalendarDays className="w-5 h-5" aria-hidden="true" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="start"
+        className="w-auto p-0"
+        aria-label={t('date.calendarLabel', { label })}
+        // The calendar moves focus to the selected day, or today, itself
+        onOpenAutoFocus={e => e.preventDefault()}
+      >
+        {mode === 'daterange' ? (
+          <Calendar
+            mode="range"
+            selected={{ from: startDate, to: endDate }}
+            onSelect={handleSelectRange}
+            {...calendarProps}
+          />
+        ) : (
+          <Calendar
+            mode="single"
+            selected={startDate}
+            onSelect={handleSelectDay}
+            {...calendarProps}
+          />
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+
+  const requiredMarker = required && (
+    <span className="text-red-500 ms-1" aria-label={t('field.requiredMarker')}>*</span>
+  );
+
+  const startInput = (
+    <input
+      {...inputProps}
+      id={id}
+      value={parts.start}
+      onChange={e => update({ start: e.target.value })}
+      onBlur={() => tidyUp('start')}
+    />
+  );
+
+  return (
+    <div className="space-y-2" onBlur={handleContainerBlur}>
+      {mode === 'date' ? (
+        <>
+          {/* Field Label */}
+          <label htmlFor={id} className="block text-sm font-medium text-gray-900">
+            {label}
+            {requiredMarker}
+          </label>
+          <div className="flex gap-2">
+            {startInput}
+            {calendarButton}
+          </div>
+        </>
+      ) : (
+        <fieldset className="space-y-2">
+          <legend className="block text-sm font-medium text-gray-900 mb-2">
+            {label}
+            {requiredMarker}
+          </legend>
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <div className="flex-1 space-y-1">
+              <label htmlFor={id} className={subLabelClasses}>
+                {t(mode === 'daterange' ? 'date.start' : 'date.date')}
+              </label>
+              {startInput}
+            </div>
+            <div className="flex-1 space-y-1">
+              {mode === 'daterange' ? (
+                <>
+                  <label htmlFor={`${id}-end`} className={subLabelClasses}>{t('date.end')}</label>
+                  <input
+                    {...inputProps}
+                    id={`${id}-end`}
+                    value={parts.end}
+                    onChange={e => update({ end: e.target.value })}
+                    onBlur={() => tidyUp('end')}
+                  />
+                </>
+              ) : (
+                <>
+                  <label htmlFor={`${id}-time`} className={subLabelClasses}>{t('date.time')}</label>
+                  <input
+                    {...inputProps}
+                    type="time"
+                    id={`${id}-time`}
+                    value={parts.time}
+                    onChange={e => update({ time: e.target.value })}
+                  />
+                </>
+              )}
+            </div>
+            {calendarButton}
+          </div>
+        </fieldset>
+      )}
+
+      {/* Format Hint */}
+      <p id={`${id}-hint`} className="text-sm text-gray-600">
+        {t('date.hint', { example: formatTypedDate(EXAMPLE_DATE, dateLocale) })}
+      </p>
+
+      {/* Help Text */}
+      {helpText && (
+        <p id={`${id}-help`} className="text-sm text-gray-600">
+          {helpText}
+        </p>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div id={`${id}-error`} className="text-sm text-red-600 flex items-center gap-2" role="alert" aria-live="polite">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* Screen Reader Status Announcements */}
+      <div id={`${id}-status`} role="status" aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+    </div>
+  );
+};
+
+export default DateField;
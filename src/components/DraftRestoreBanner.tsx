@@ -0,0 +1,58 @@
+
+import React from 'react';
+import { History } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useI18n } from '@/hooks/use-i18n';
+
+interface DraftRestoreBannerProps {
+  /** ISO timestamp of when the draft was saved */
+  savedAt: string;
+  /** Called when the user chooses to restore the draft */
+  onRestore: () => void;
+  /** Called when the user chooses to discard the draft */
+  onDiscard: () => void;
+}
+
+/**
+ * Draft restore banner component
+ * Offers a previously autosaved draft when the user returns to the form
+ */
+const DraftRestoreBanner: React.FC<DraftRestoreBannerProps> = ({
+  savedAt,
+  onRestore,
+  onDiscard
+}) => {
+  const { locale, t } = useI18n();
+  const savedDate = new Date(savedAt);
+  const savedLabel = Number.isNaN(savedDate.getTime())
+    ? t('draft.savedEarlier')
+    : savedDate.toLocaleString(locale.code, { dateStyle: 'medium', timeStyle: 'short' });
+
+  return (
+    <section
+      aria-labelledby="draft-restore-title"
+      aria-describedby="draft-restore-desc"
+      className="flex flex-col sm:flex-row sm:items-center gap-4 rounded-xl border border-amber-200 bg-amber-50 p-4"
+    >
+      <History className="w-5 h-5 flex-shrink-0 text-amber-700" aria-hidden="true" />
+      <div className="flex-1">
+        <h2 id="draft-restore-title" className="text-sm font-semibold text-gray-900">
+          {t('draft.title')}
+        </h2>
+        <p id="draft-restore-desc" className="text-sm text-gray-700">
+          {t('draft.description', { savedAt: savedLabel })}
+        </p>
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" size="sm" onClick={onRestore}>
+          {t('draft.restore')}
+        </Button>
+        <Button type="button" size="sm" variant="outline" onClick={onDiscard}>
+          {t('draft.discard')}
+        </Button>
+      </div>
+    </section>
+  );
+};
+
+export default DraftRestoreBanner;
@@ -0,0 +1,128 @@
+
+import React, { useEffect, useState } from 'react';
+import FormField from './FormField';
+import { useI18n } from '@/hooks/use-i18n';
+import { suggestEmail } from '@/lib/email';
+
+interface EmailFieldProps {
+  /** Unique identifier for the form field */
+  id: string;
+  /** Display label for the field */
+  label: string;
+  /** Current value of the field */
+  value: string;
+  /** Callback function called when the field value changes */
+  onChange: (value: string) => void;
+  /** Callback function called when the field loses focus */
+  onBlur?: () => void;
+  /** Error message to display if validation fails */
+  error?: string;
+  /** Whether the field is required for form submission */
+  required?: boolean;
+  /** HTML autocomplete attribute value */
+  autoComplete?: string;
+  /** Additional help text to guide the user */
+  helpText?: string;
+  /** Whether an asynchronous check of the value is in progress */
+  pending?: boolean;
+}
+
+/** Pause in typing before a correction is offered, so half-typed domains are left alone */
+const SUGGESTION_DELAY_MS = 600;
+
+/**
+ * Email field component
+ * Offers a correction for a mistyped domain ("Did you mean jane@gmail.com?")
+ * under the input. Enter accepts the suggestion and Escape dismisses it.
+ */
+const EmailField: React.FC<EmailFieldProps> = ({
+  id,
+  label,
+  value,
+  onChange,
+  onBlur,
+  error,
+  required = false,
+  autoComplete,
+  helpText,
+  pending
+}) => {
+  const { t } = useI18n();
+  const [settledValue, setSettledValue] = useState(value);
+  const [dismissedValue, setDismissedValue] = useState<string>();
+  const [accepted, setAccepted] = useState<string>();
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setSettledValue(value), SUGGESTION_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [value]);
+
+  const suggestion = settledValue === value && dismissedValue !== value ? suggestEmail(value) : undefined;
+
+  const handleChange = (newValue: string) => {
+    setAccepted(undefined);
+    onChange(newValue);
+  };
+
+  const acceptSuggestion = () => {
+    if (!suggestion) return;
+
+    setAccepted(suggestion);
+    setSettledValue(suggestion);
+    onChange(suggestion);
+  };
+
+  const handleBlur = () => {
+    setSettledValue(value);
+    onBlur?.();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    if (!suggestion || e.nativeEvent.isComposing || e.altKey || e.ctrlKey || e.metaKey || e.shiftKey) return;
+
+    if (e.key === 'Enter') {
+      // Keep Enter from submitting the form while a correction is on offer
+      e.preventDefault();
+      acceptSuggestion();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setDismissedValue(value);
+    }
+  };
+
+  return (
+    <FormField
+      id={id}
+      label={label}
+      type="email"
+      value={value}
+      onChange={handleChange}
+      onBlur={handleBlur}
+      onKeyDown={handleKeyDown}
+      error={error}
+      required={required}
+      autoComplete={autoComplete}
+      helpText={helpText}
+      pending={pending}
+      suggestion={
+        suggestion ? (
+          <p className="flex flex-wrap items-center gap-x-2 gap-y-1">
+            <span>{t('email.suggestion', { suggestion })}</span>
+            <button
+              type="button"
+              onClick={acceptSuggestion}
+              className="font-medium text-blue-700 underline underline-offset-2 rounded hover:text-blue-900 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+            >
+              {t('email.useSuggestion', { suggestion })}
+            </button>
+            <span className="w-full text-gray-600">{t('email.suggestionHint')}</span>
+          </p>
+        ) : accepted ? (
+          <span className="sr-only">{t('email.suggestionAccepted', { suggestion: accepted })}</span>
+        ) : undefined
+      }
+    />
+  );
+};
+
+export default EmailField;
@@ -0,0 +1,308 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, FileText, Upload, X } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { useI18n } from '@/hooks/use-i18n';
+import { checkFiles, formatFileSize, type FileProblem } from '@/lib/files';
+
+interface FileFieldProps {
+  /** Unique identifier for the field - given to the drop zone */
+  id: string;
+  /** Display label for the field */
+  label: string;
+  /** Attached files */
+  value: File[];
+  /** Callback function called when files are attached or removed */
+  onChange: (files: File[]) => void;
+  /** Callback function called when focus leaves the field */
+  onBlur?: () => void;
+  /** Error message to display if validation fails */
+  error?: string;
+  /** Whether at least one file is required for form submission */
+  required?: boolean;
+  /** Additional help text to guide the user */
+  helpText?: string;
+  /** MIME types ("application/pdf"), wildcards ("image/*") or extensions (".pdf") - any file when omitted */
+  accept?: string[];
+  /** Largest accepted file in bytes */
+  maxFileSizeBytes?: number;
+  /** Most files the field holds */
+  maxFiles?: number;
+  /** Upload progress of attached files as percentages, while the form is being submitted */
+  progress?: Map<File, number>;
+}
+
+interface RejectedFile {
+  file: File;
+  problem: FileProblem;
+}
+
+/**
+ * Short name of an accepted type for the hint, e.g. "PDF" for application/pdf
+ */
+const getTypeName = (pattern: string) => {
+  const [type, subtype] = pattern.split('/');
+  if (pattern.startsWith('.')) return pattern.slice(1).toUpperCase();
+  return (subtype === '*' ? type : subtype).toUpperCase();
+};
+
+/**
+ * File field component
+ * Attaches files through a drop zone that is also a button opening the file
+ * picker, so it works with a keyboard as well as by dragging. Each file is
+ * checked as it is added: files breaking the limits are listed with the
+ * reason and not attached. While the form is submitted every attached file
+ * shows its upload progress. Each change is announced to screen readers.
+ */
+const FileField: React.FC<FileFieldProps> = ({
+  id,
+  label,
+  value,
+  onChange,
+  onBlur,
+  error,
+  required = false,
+  helpText,
+  accept,
+  maxFileSizeBytes,
+  maxFiles,
+  progress
+}) => {
+  const { locale, t } = useI18n();
+  const [rejected, setRejected] = useState<RejectedFile[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [announcement, setAnnouncement] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const dropZoneRef = useRef<HTMLButtonElement>(null);
+  const removeButtonRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const previousProgressRef = useRef<Map<File, number> | undefined>();
+
+  const isUploading = !!progress;
+  const maxSize = maxFileSizeBytes !== undefined ? formatFileSize(maxFileSizeBytes, locale.code) : '';
+
+  const hints = [
+    accept?.length ? t('file.hint.types', { types: accept.map(getTypeName).join(', ') }) : '',
+    maxSize ? t('file.hint.size', { size: maxSize }) : '',
+    maxFiles !== undefined ? t('file.hint.count', { max: maxFiles }) : ''
+  ].filter(Boolean);
+
+  // Build describedBy attribute for accessibility
+  const describedBy = [
+    hints.length > 0 ? `${id}-hint` : '',
+    helpText ? `${id}-help` : '',
+    error ? `${id}-error` : ''
+  ].filter(Boolean).join(' ');
+
+  const rejectionMessage = ({ file, problem }: RejectedFile) =>
+    t(`file.rejected.${problem}`, { name: file.name, size: maxSize, max: maxFiles ?? 0 });
+
+  // Announce when the upload starts and as each file finishes
+  useEffect(() => {
+    const previous = previousProgressRef.current;
+    previousProgressRef.current = progress;
+    if (!progress) return;
+
+    if (!previous) {
+      setAnnouncement(t('file.uploadStarted', { count: progress.size }));
+      return;
+    }
+
+    const finished = value.filter(file => progress.get(file) === 100 && previous.get(file) !== 100);
+    if (finished.length > 0) {
+      setAnnouncement(finished.map(file => t('file.uploaded', { name: file.name })).join(' '));
+    }
+  }, [progress, value, t]);
+
+  const addFiles = (files: File[]) => {
+    if (files.length === 0 || isUploading) return;
+
+    const result = checkFiles(files, value, { accept, maxFileSizeBytes, maxFiles });
+    setRejected(result.rejected);
+    if (result.accepted.length > 0) {
+      onChange([...value, ...result.accepted]);
+    }
+
+    setAnnouncement([
+      ...result.accepted.map(file => t('file.added', { name: file.name })),
+      ...result.rejected.map(rejectionMessage)
+    ].join(' '));
+  };
+
+  const handleRemove = (file: File, index: number) => {
+    const remaining = value.filter(attached => attached !== file);
+    onChange(remaining);
+    setAnnouncement(t('file.removed', { name: file.name }));
+
+    // Keep focus in the list - on the file that took this one's place, or the drop zone
+    const nextButton = removeButtonRefs.current[index + 1] ?? removeButtonRefs.current[index - 1];
+    if (nextButton && remaining.length > 0) {
+      nextButton.focus();
+    } else {
+      dropZoneRef.current?.focus();
+    }
+  };
+
+  const handleDismiss = (entry: RejectedFile) => {
+    setRejected(prev => prev.filter(other => other !== entry));
+    dropZoneRef.current?.focus();
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLButtonElement>) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = isUploading ? 'none' : 'copy';
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLButtonElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  /**
+   * Reports a blur once focus has left every part of the field
+   */
+  const handleContainerBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+      onBlur?.();
+    }
+  };
+
+  // Dynamic classes based on drag and error state
+  const dropZoneClasses = isDragging
+    ? 'border-blue-500 bg-blue-50'
+    : error
+    ? 'border-red-300 bg-red-50/50 hover:border-red-400'
+    : 'border-gray-300 bg-white hover:border-gray-400';
+
+  return (
+    <div className="space-y-2" onBlur={handleContainerBlur}>
+      {/* Field Label */}
+      <label htmlFor={id} className="block text-sm font-medium text-gray-900">
+        {label}
+        {required && (
+          <span className="text-red-500 ms-1" aria-label={t('field.requiredMarker')}>*</span>
+        )}
+      </label>
+
+      {/* Drop Zone - a button, so Enter and Space open the file picker */}
+      <button
+        ref={dropZoneRef}
+        id={id}
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        disabled={isUploading}
+        className={`w-full flex flex-col items-center gap-2 px-4 py-6 border-2 border-dashed rounded-lg text-center transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:cursor-not-allowed disabled:opacity-60 ${dropZoneClasses}`}
+        aria-describedby={describedBy || undefined}
+      >
+        <Upload className="w-6 h-6 text-gray-500" aria-hidden="true" />
+        <span className="text-sm font-medium text-gray-900">
+          {isDragging ? t('file.dropHere') : t('file.choose')}
+        </span>
+        {hints.length > 0 && (
+          <span id={`${id}-hint`} className="text-xs text-gray-600">
+            {hints.join(' ')}
+          </span>
+        )}
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple={maxFiles !== 1}
+        accept={accept?.join(',')}
+        onChange={(e) => {
+          addFiles(Array.from(e.target.files ?? []));
+          // Allow the same file to be chosen again after removing it
+          e.target.value = '';
+        }}
+        className="sr-only"
+        tabIndex={-1}
+        aria-hidden="true"
+      />
+
+      {/* Attached Files */}
+      {value.length > 0 && (
+        <ul aria-label={t('file.listLabel')} className="space-y-2">
+          {value.map((file, index) => {
+            const percent = progress?.get(file);
+
+            return (
+              <li key={`${file.name}-${file.lastModified}-${file.size}`} className="rounded-lg border border-gray-200 bg-white px-3 py-2">
+                <div className="flex items-center gap-3">
+                  <FileText className="w-4 h-4 flex-shrink-0 text-gray-500" aria-hidden="true" />
+                  <span className="flex-1 min-w-0 truncate text-sm text-gray-900">{file.name}</span>
+                  <span className="text-xs text-gray-600">{formatFileSize(file.size, locale.code)}</span>
+                  {!isUploading && (
+                    <button
+                      ref={el => removeButtonRefs.current[index] = el}
+                      type="button"
+                      onClick={() => handleRemove(file, index)}
+                      aria-label={t('file.remove', { name: file.name })}
+                      className="rounded-full p-1 text-gray-600 hover:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <X className="w-4 h-4" aria-hidden="true" />
+                    </button>
+                  )}
+                </div>
+                {percent !== undefined && (
+                  <div className="mt-2 flex items-center gap-3">
+                    <Progress value={percent} aria-label={t('file.uploading', { name: file.name })} className="h-2" />
+                    <span className="text-xs text-gray-600 tabular-nums" aria-hidden="true">{percent}%</span>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* Files Turned Away */}
+      {rejected.length > 0 && (
+        <ul aria-label={t('file.rejectedLabel')} className="space-y-2">
+          {rejected.map(entry => (
+            <li
+              key={`${entry.file.name}-${entry.file.lastModified}-${entry.problem}`}
+              className="flex items-center gap-3 rounded-lg border border-red-200 bg-red-50/50 px-3 py-2 text-sm text-red-700"
+            >
+              <AlertCircle className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+              <span className="flex-1">{rejectionMessage(entry)}</span>
+              <button
+                type="button"
+                onClick={() => handleDismiss(entry)}
+                aria-label={t('file.dismiss', { name: entry.file.name })}
+                className="rounded-full p-1 hover:bg-red-100 focus:outline-none focus:ring-2 focus:ring-red-500"
+              >
+                <X className="w-4 h-4" aria-hidden="true" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Help Text */}
+      {helpText && (
+        <p id={`${id}-help`} className="text-sm text-gray-600">
+          {helpText}
+        </p>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div id={`${id}-error`} className="text-sm text-red-600 flex items-center gap-2" role="alert" aria-live="polite">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* Screen Reader Status Announcements */}
+      <div id={`${id}-status`} role="status" aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+    </div>
+  );
+};
+
+export default FileField;
@@ -1,6 +1,7 @@
 
-import React from 'react';
-import { AlertCircle } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { useI18n } from '@/hooks/use-i18n';
 
 /**
  * Props for the FormField component
@@ -16,6 +17,8 @@ interface FormFieldProps {
   value: string;
   /** Callback function called when the field value changes */
   onChange: (value: string) => void;
+  /** Callback function called when the field loses focus */
+  onBlur?: () => void;
   /** Error message to display if validation fails */
   error?: string;
   /** Whether the field is required for form submission */
@@ -24,8 +27,28 @@ interface FormFieldProps {
   autoComplete?: string;
   /** Additional help text to guide the user */
   helpText?: string;
+  /** Whether an asynchronous check of the value is in progress */
+  pending?: boolean;
+  /** Placeholder text - defaults to a translated "Enter your ..." prompt */
+  placeholder?: string;
+  /** Control rendered before a single-line input, e.g. a country selector */
+  inputPrefix?: React.ReactNode;
+  /** Correction offered under the input, e.g. for a mistyped email domain - announced politely */
+  suggestion?: React.ReactNode;
+  /** Callback function called for key presses in the input */
+  onKeyDown?: (event: React.KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => void;
+  /** Fewest characters expected - shows a counter until it is reached */
+  minLength?: number;
+  /** Most characters allowed - shows a counter of the characters remaining */
+  maxLength?: number;
+  /** Warn once the text passes `maxLength` instead of stopping input at it */
+  softLimit?: boolean;
 }
 
+// Characters remaining at which the counter is announced, so screen readers
+// are told as the limit nears rather than on every keystroke
+const COUNTER_THRESHOLDS = [100, 50, 20, 10, 0];
+
 /**
  * A reusable form field component with built-in validation display,
  * accessibility features, and consistent styling.
@@ -39,22 +62,75 @@ const FormField: React.FC<FormFieldProps> = ({
   type,
   value,
   onChange,
+  onBlur,
   error,
   required = false,
   autoComplete,
-  helpText
+  helpText,
+  pending = false,
+  placeholder,
+  inputPrefix,
+  suggestion,
+  onKeyDown,
+  minLength,
+  maxLength,
+  softLimit = false
 }) => {
+  const { t } = useI18n();
+  const [counterAnnouncement, setCounterAnnouncement] = useState('');
+  const counterLevelRef = useRef<number>();
+  const wasOverLimitRef = useRef(false);
+
+  // Character counter - the minimum is counted like the minLength rule, ignoring surrounding spaces
+  const hasCounter = minLength !== undefined || maxLength !== undefined;
+  const remaining = maxLength !== undefined ? maxLength - value.length : undefined;
+  const isOverLimit = remaining !== undefined && remaining < 0;
+  const missing = minLength !== undefined ? minLength - value.trim().length : 0;
+  const counterText = missing > 0
+    ? t('field.counter.needed', { count: missing })
+    : isOverLimit
+    ? t('field.counter.over', { count: -remaining })
+    : remaining !== undefined
+    ? t('field.counter.remaining', { count: remaining })
+    : t('field.counter.count', { count: value.length });
+
+  // Announce the counter each time the text crosses a threshold towards the
+  // limit, and announce going over the limit and coming back within it
+  useEffect(() => {
+    if (remaining === undefined || maxLength === undefined) return;
+
+    const level = COUNTER_THRESHOLDS.filter(threshold => threshold < maxLength && remaining <= threshold).length;
+    const previousLevel = counterLevelRef.current;
+    const wasOverLimit = wasOverLimitRef.current;
+    counterLevelRef.current = level;
+    wasOverLimitRef.current = isOverLimit;
+    if (previousLevel === undefined) return;
+
+    if (isOverLimit !== wasOverLimit) {
+      setCounterAnnouncement(t(isOverLimit ? 'field.counter.overLimit' : 'field.counter.withinLimit', { max: maxLength }));
+    } else if (level > previousLevel) {
+      setCounterAnnouncement(counterText);
+    } else if (level < previousLevel) {
+      // Clear the region when the text moves back below a threshold, so crossing it again is announced again
+      setCounterAnnouncement('');
+    }
+  }, [remaining, maxLength, isOverLimit, counterText, t]);
+
   // Base classes for consistent styling
   const baseClasses = "w-full px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 transition-all duration-200 bg-white";
   
   // Dynamic classes based on error state
   const errorClasses = error 
     ? "border-red-300 focus:border-red-500 focus:ring-red-500/20 bg-red-50/50" 
+    : isOverLimit
+    ? "border-amber-400 focus:border-amber-500 focus:ring-amber-500/20"
     : "border-gray-300 focus:border-blue-500 focus:ring-blue-500/20 hover:border-gray-400";
 
   // Build describedBy attribute for accessibility
   const describedBy = [
     helpText ? `${id}-help` : '',
+    suggestion ? `${id}-suggestion` : '',
+    hasCounter ? `${id}-counter` : '',
     error ? `${id}-error` : ''
   ].filter(Boolean).join(' ');
 
@@ -63,11 +139,18 @@ const FormField: React.FC<FormFieldProps> = ({
     id,
     value,
     onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => onChange(e.target.value),
+    onBlur,
+    onKeyDown,
     className: `${baseClasses} ${errorClasses}`,
     'aria-required': required,
     'aria-invalid': !!error,
     'aria-describedby': describedBy || undefined,
-    autoComplete
+    'aria-busy': pending || undefined,
+    placeholder: placeholder ?? t('field.placeholder', { label: label.toLowerCase() }),
+    'aria-label': t(required ? 'field.labelRequired' : 'field.labelOptional', { label }),
+    autoComplete,
+    // Hard limits stop input at the maximum, soft ones only warn
+    maxLength: softLimit ? undefined : maxLength
   };
 
   return (
@@ -76,7 +159,7 @@ const FormField: React.FC<FormFieldProps> = ({
       <label htmlFor={id} className="block text-sm font-medium text-gray-900">
         {label}
         {required && (
-          <span className="text-red-500 ml-1" aria-label="required field">*</span>
+          <span className="text-red-500 ms-1" aria-label={t('field.requiredMarker')}>*</span>
         )}
       </label>
       
@@ -85,26 +168,64 @@ const FormField: React.FC<FormFieldProps> = ({
         <textarea
           {...inputProps}
           rows={4}
-          placeholder={`Enter your ${label.toLowerCase()}...`}
           className={`${inputProps.className} resize-none`}
-          aria-label={`${label}${required ? ' (required)' : ' (optional)'}`}
         />
+      ) : inputPrefix ? (
+        <div className="flex gap-2">
+          {inputPrefix}
+          <input
+            {...inputProps}
+            type={type}
+          />
+        </div>
       ) : (
         <input
           {...inputProps}
           type={type}
-          placeholder={`Enter your ${label.toLowerCase()}...`}
-          aria-label={`${label}${required ? ' (required)' : ' (optional)'}`}
         />
       )}
       
-      {/* Help Text */}
-      {helpText && (
-        <p id={`${id}-help`} className="text-sm text-gray-600">
-          {helpText}
-        </p>
+      {/* Help Text and Character Counter */}
+      {(helpText || hasCounter) && (
+        <div className="flex items-start justify-between gap-4">
+          {helpText && (
+            <p id={`${id}-help`} className="text-sm text-gray-600">
+              {helpText}
+            </p>
+          )}
+          {hasCounter && (
+            <p
+              id={`${id}-counter`}
+              className={`ms-auto flex-shrink-0 text-sm tabular-nums ${isOverLimit ? 'text-amber-700 font-medium' : 'text-gray-600'}`}
+            >
+              {counterText}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Character Count Announcements - only as the limit nears */}
+      {maxLength !== undefined && (
+        <div id={`${id}-counter-status`} role="status" className="sr-only">
+          {counterAnnouncement}
+        </div>
       )}
       
+      {/* Suggested Correction - the region stays mounted so new suggestions are announced */}
+      <div id={`${id}-suggestion`} role="status" className={suggestion ? 'text-sm text-gray-700' : 'sr-only'}>
+        {suggestion}
+      </div>
+      
+      {/* Async Check Status */}
+      <div id={`${id}-pending`} role="status" className={pending ? 'text-sm text-gray-600' : 'sr-only'}>
+        {pending && (
+          <span className="flex items-center gap-2">
+            <Loader2 className="w-4 h-4 flex-shrink-0 animate-spin" aria-hidden="true" />
+            {t('field.checking', { label: label.toLowerCase() })}
+          </span>
+        )}
+      </div>
+      
       {/* Error Message */}
       {error && (
         <div id={`${id}-error`} className="text-sm text-red-600 flex items-center gap-2" role="alert" aria-live="polite">
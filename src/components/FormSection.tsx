@@ -0,0 +1,112 @@
+
+import React from 'react';
+import SchemaField from './SchemaField';
+import { getOtherFieldName, type FieldSchema, type FieldValue, type FormErrors, type FormValues, type SectionSchema } from '@/lib/form-schema';
+import { isFieldVisible } from '@/lib/conditions';
+import { isFieldRequired } from '@/lib/validation';
+
+interface FormSectionProps {
+  /** Schema describing the section and its fields */
+  section: SectionSchema;
+  formData: FormValues;
+  errors: FormErrors;
+  /** Fields waiting for an async check */
+  pending?: Record<string, boolean>;
+  /** Upload progress of attached files as percentages, while the form is being submitted */
+  uploadProgress?: Map<File, number>;
+  onInputChange: (name: string, value: FieldValue) => void;
+  onInputBlur?: (name: string) => void;
+}
+
+const containerClasses: Record<NonNullable<SectionSchema['variant']>, string> = {
+  info: 'bg-gradient-to-r from-blue-50/50 to-indigo-50/50 rounded-xl p-6 border border-blue-100/50',
+  neutral: 'bg-gradient-to-r from-slate-50/50 to-gray-50/50 rounded-xl p-6 border border-gray-100/50',
+  success: 'bg-green-50/50 rounded-xl p-6 border border-green-100/50'
+};
+
+const bulletClasses: Record<NonNullable<SectionSchema['variant']>, string> = {
+  info: 'bg-blue-500',
+  neutral: 'bg-slate-500',
+  success: 'bg-green-500'
+};
+
+/**
+ * Groups consecutive half-width fields into two-column rows so that
+ * pairs such as first and last name sit side by side
+ */
+const groupIntoRows = (fields: FieldSchema[]): FieldSchema[][] => {
+  const rows: FieldSchema[][] = [];
+
+  for (const field of fields) {
+    const lastRow = rows[rows.length - 1];
+    if (field.width === 'half' && lastRow && lastRow.length === 1 && lastRow[0].width === 'half') {
+      lastRow.push(field);
+    } else {
+      rows.push([field]);
+    }
+  }
+
+  return rows;
+};
+
+/**
+ * Form section component
+ * Renders a schema section as a fieldset with its fields laid out in rows
+ */
+const FormSection: React.FC<FormSectionProps> = ({
+  section,
+  formData,
+  errors,
+  pending = {},
+  uploadProgress,
+  onInputChange,
+  onInputBlur
+}) => {
+  const variant = section.variant ?? 'neutral';
+
+  const visibleFields = section.fields.filter(field => isFieldVisible(field, formData));
+
+  const fields = groupIntoRows(visibleFields).map(row => {
+    const rendered = row.map(field => (
+      <SchemaField
+        key={field.name}
+        field={field}
+        value={formData[field.name]}
+        error={errors[field.name]}
+        required={isFieldRequired(field, formData)}
+        pending={pending[field.name]}
+        onChange={onInputChange}
+        onBlur={onInputBlur}
+        otherValue={formData[getOtherFieldName(field.name)]}
+        otherError={errors[getOtherFieldName(field.name)]}
+        uploadProgress={uploadProgress}
+      />
+    ));
+
+    return row[0].width === 'half' ? (
+      <div key={row[0].name} className="grid md:grid-cols-2 gap-6">
+        {rendered}
+      </div>
+    ) : (
+      rendered
+    );
+  });
+
+  return (
+    <div className={containerClasses[variant]}>
+      {section.legend ? (
+        <fieldset className="space-y-6">
+          <legend className="text-xl font-semibold text-gray-900 mb-4 flex items-center gap-2">
+            <div className={`w-2 h-2 ${bulletClasses[variant]} rounded-full`} aria-hidden="true"></div>
+            {section.legend}
+          </legend>
+          {fields}
+        </fieldset>
+      ) : (
+        <div className="space-y-6">{fields}</div>
+      )}
+    </div>
+  );
+};
+
+export default FormSection;
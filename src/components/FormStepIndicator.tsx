@@ -0,0 +1,60 @@
+
+import React from 'react';
+import { Check } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { useI18n } from '@/hooks/use-i18n';
+
+interface FormStepIndicatorProps {
+  /** Titles of every step, in order */
+  steps: string[];
+  /** Zero-based index of the active step */
+  currentStep: number;
+}
+
+/**
+ * Step indicator component for wizard mode
+ * Shows overall progress and marks completed and current steps
+ */
+const FormStepIndicator: React.FC<FormStepIndicatorProps> = ({ steps, currentStep }) => {
+  const { t } = useI18n();
+  const stepPosition = { current: currentStep + 1, total: steps.length };
+
+  return (
+    <nav aria-label={t('steps.progress')} className="space-y-3">
+      <Progress
+        value={((currentStep + 1) / steps.length) * 100}
+        getValueLabel={() => t('steps.positionWithTitle', { ...stepPosition, title: steps[currentStep] })}
+        aria-label={t('steps.progress')}
+        className="h-2 bg-blue-100 rtl:-scale-x-100"
+      />
+      <ol className="grid gap-2 text-sm" style={{ gridTemplateColumns: `repeat(${steps.length}, minmax(0, 1fr))` }}>
+        {steps.map((title, index) => {
+          const isComplete = index < currentStep;
+          const isCurrent = index === currentStep;
+
+          return (
+            <li
+              key={title}
+              aria-current={isCurrent ? 'step' : undefined}
+              className={`flex items-center gap-2 ${
+                isCurrent ? 'font-semibold text-blue-700' : isComplete ? 'text-gray-900' : 'text-gray-500'
+              }`}
+            >
+              {isComplete ? (
+                <Check className="w-4 h-4 flex-shrink-0 text-blue-600" aria-hidden="true" />
+              ) : (
+                <span className="w-4 text-center flex-shrink-0" aria-hidden="true">{index + 1}</span>
+              )}
+              <span>
+                <span className="sr-only">{isComplete ? t('steps.completed') : isCurrent ? t('steps.current') : ''}</span>
+                {title}
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+};
+
+export default FormStepIndicator;
@@ -0,0 +1,42 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { createTranslator, matchLocale } from '@/lib/i18n';
+import { defaultLocale, locales } from '@/locales';
+import { I18nContext } from '@/hooks/use-i18n';
+
+interface I18nProviderProps {
+  /** Code of the locale to start in - defaults to the best match for the browser's languages */
+  initialLocale?: string;
+  children: React.ReactNode;
+}
+
+const detectLocale = () =>
+  typeof navigator === 'undefined' ? undefined : matchLocale(locales, navigator.languages ?? [navigator.language]);
+
+/**
+ * I18n provider component
+ * Holds the active locale, lets descendants switch it at runtime and keeps
+ * the document language and direction in sync, so screen readers pronounce
+ * text correctly and right-to-left locales are laid out mirrored
+ */
+const I18nProvider: React.FC<I18nProviderProps> = ({ initialLocale, children }) => {
+  const [locale, setLocaleState] = useState(() =>
+    (initialLocale && matchLocale(locales, [initialLocale])) || detectLocale() || defaultLocale
+  );
+
+  useEffect(() => {
+    document.documentElement.lang = locale.code;
+    document.documentElement.dir = locale.dir;
+  }, [locale]);
+
+  const value = useMemo(() => ({
+    locale,
+    locales,
+    setLocale: (code: string) => setLocaleState(current => matchLocale(locales, [code]) ?? current),
+    t: createTranslator(locale, defaultLocale)
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
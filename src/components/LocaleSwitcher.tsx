@@ -0,0 +1,33 @@
+
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { useI18n } from '@/hooks/use-i18n';
+
+/**
+ * Locale switcher component
+ * Native select listing every bundled locale by its own name
+ */
+const LocaleSwitcher: React.FC = () => {
+  const { locale, locales, setLocale, t } = useI18n();
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-gray-700">
+      <Languages className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+      <label htmlFor="locale-switcher">{t('form.localeLabel')}</label>
+      <select
+        id="locale-switcher"
+        value={locale.code}
+        onChange={(e) => setLocale(e.target.value)}
+        className="rounded-md border border-gray-300 bg-white px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {locales.map(option => (
+          <option key={option.code} value={option.code} lang={option.code}>
+            {option.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default LocaleSwitcher;
@@ -0,0 +1,156 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import FormField from './FormField';
+import { useI18n } from '@/hooks/use-i18n';
+import {
+  composePhoneValue,
+  findPhoneCountry,
+  formatNationalNumber,
+  parsePhoneNumber,
+  phoneCountries
+} from '@/lib/phone';
+
+interface PhoneFieldProps {
+  /** Unique identifier for the number input - the country selector gets `${id}-country` */
+  id: string;
+  /** Display label for the field */
+  label: string;
+  /** Current value including the calling code, e.g. "+44 07400 123456" */
+  value: string;
+  /** Called with the new value whenever the number or country changes */
+  onChange: (value: string) => void;
+  /** Callback function called when the number input loses focus */
+  onBlur?: () => void;
+  /** Error message to display if validation fails */
+  error?: string;
+  /** Whether the field is required for form submission */
+  required?: boolean;
+  /** HTML autocomplete attribute value */
+  autoComplete?: string;
+  /** Additional help text to guide the user */
+  helpText?: string;
+  /** Whether an asynchronous check of the value is in progress */
+  pending?: boolean;
+  /** Region code selected while the field is empty - defaults to the browser's region */
+  defaultCountry?: string;
+  /** Region codes offered in the country selector */
+  countries?: string[];
+}
+
+const getBrowserRegion = () =>
+  typeof navigator === 'undefined' ? undefined : navigator.language.split('-')[1]?.toUpperCase();
+
+/**
+ * Phone field component
+ * Combines a country selector with a tel input that formats the national
+ * number as the user types. Typing or pasting a number with a calling code
+ * switches the country to match.
+ */
+const PhoneField: React.FC<PhoneFieldProps> = ({
+  id,
+  label,
+  value,
+  onChange,
+  onBlur,
+  error,
+  required = false,
+  autoComplete,
+  helpText,
+  pending,
+  defaultCountry,
+  countries
+}) => {
+  const { t } = useI18n();
+
+  const available = useMemo(
+    () => (countries ? phoneCountries.filter(country => countries.includes(country.code)) : phoneCountries),
+    [countries]
+  );
+
+  const [countryCode, setCountryCode] = useState(() => {
+    const fromValue = value ? parsePhoneNumber(value, defaultCountry).country?.code : undefined;
+    return [fromValue, defaultCountry, getBrowserRegion()].find(code => available.some(country => country.code === code))
+      ?? available[0].code;
+  });
+  const country = findPhoneCountry(countryCode) ?? available[0];
+
+  // Follow values set from outside, e.g. a restored draft with another calling code
+  useEffect(() => {
+    if (!value) return;
+
+    const parsed = parsePhoneNumber(value, countryCode);
+    if (parsed.country && parsed.country.code !== countryCode && available.includes(parsed.country)) {
+      setCountryCode(parsed.country.code);
+    }
+  }, [value, countryCode, available]);
+
+  const parsed = value ? parsePhoneNumber(value, countryCode) : undefined;
+  const digits = parsed?.digits ?? '';
+  // "+" or the start of a calling code, typed before any country matches
+  const isPartialCallingCode = Boolean(parsed) && !parsed?.country && value.trim().startsWith('+');
+
+  const handleNumberChange = (input: string) => {
+    // A typed, pasted or autofilled international number carries its own country
+    if (input.trim().startsWith('+')) {
+      const parsed = parsePhoneNumber(input, countryCode);
+      if (parsed.country && available.includes(parsed.country)) {
+        setCountryCode(parsed.country.code);
+        onChange(composePhoneValue(parsed.country, parsed.digits));
+        return;
+      }
+
+      // Keep the text as typed until the calling code is complete, rather than
+      // reading its digits as a national number of the selected country
+      if (!parsed.country) {
+        onChange(input);
+        return;
+      }
+    }
+
+    onChange(composePhoneValue(country, input));
+  };
+
+  const handleCountryChange = (code: string) => {
+    const nextCountry = findPhoneCountry(code);
+    if (!nextCountry) return;
+
+    setCountryCode(code);
+    if (digits) {
+      onChange(composePhoneValue(nextCountry, digits));
+    }
+  };
+
+  return (
+    <FormField
+      id={id}
+      label={label}
+      type="tel"
+      value={isPartialCallingCode ? value : formatNationalNumber(digits, country)}
+      onChange={handleNumberChange}
+      onBlur={onBlur}
+      error={error}
+      required={required}
+      autoComplete={autoComplete}
+      helpText={helpText}
+      pending={pending}
+      placeholder={formatNationalNumber(country.example, country)}
+      inputPrefix={
+        <select
+          id={`${id}-country`}
+          value={country.code}
+          onChange={(e) => handleCountryChange(e.target.value)}
+          aria-label={t('phone.countryLabel')}
+          className="flex-shrink-0 max-w-[45%] px-3 py-3 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 hover:border-gray-400"
+        >
+          {available.map(option => (
+            <option key={option.code} value={option.code}>
+              {t(`countries.${option.code}`)} +{option.dialCode}
+            </option>
+          ))}
+        </select>
+      }
+    />
+  );
+};
+
+export default PhoneField;
@@ -0,0 +1,199 @@
+
+import React, { useRef } from 'react';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import FormField from './FormField';
+import { useI18n } from '@/hooks/use-i18n';
+import { getArrowKeyDelta } from '@/lib/direction';
+import { getOtherFieldName } from '@/lib/form-schema';
+
+export interface RadioCardOption {
+  value: string;
+  label: string;
+  description?: string;
+}
+
+interface RadioCardGroupProps {
+  /** Name shared by the radio inputs, also used to derive element ids */
+  name: string;
+  /** Visible legend for the group */
+  legend: string;
+  /** Options rendered as radio cards */
+  options: RadioCardOption[];
+  value: string;
+  onChange: (value: string) => void;
+  /** Callback function called when focus leaves the radio cards */
+  onBlur?: () => void;
+  /** Whether a selection is required for form submission */
+  required?: boolean;
+  /** Additional help text to guide the user */
+  helpText?: string;
+  /** Error message to display if validation fails */
+  error?: string;
+  /** Adds a last card whose value is `otherOption.value` and that reveals a text field while chosen */
+  otherOption?: RadioCardOption & {
+    /** Label of the text field */
+    inputLabel: string;
+  };
+  /** Text entered for the "Other" option */
+  otherValue?: string;
+  onOtherChange?: (value: string) => void;
+  onOtherBlur?: () => void;
+  /** Error message for the "Other" text */
+  otherError?: string;
+  /** Whether the "Other" text is required while the option is chosen */
+  otherRequired?: boolean;
+}
+
+/**
+ * Radio card group component
+ * Renders options as selectable cards with a roving tabindex: Tab enters the
+ * group on the chosen card (or the first one) and arrow keys move between
+ * cards in reading order, selecting as they go, so Left selects the next card
+ * in right-to-left locales.
+ * An optional "Other" card reveals a text field for answers the options do
+ * not cover.
+ */
+const RadioCardGroup: React.FC<RadioCardGroupProps> = ({
+  name,
+  legend,
+  options,
+  value,
+  onChange,
+  onBlur,
+  required = false,
+  helpText,
+  error,
+  otherOption,
+  otherValue = '',
+  onOtherChange,
+  onOtherBlur,
+  otherError,
+  otherRequired = false
+}) => {
+  const { locale } = useI18n();
+  const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
+
+  const cards = otherOption ? [...options, otherOption] : options;
+  const checkedIndex = cards.findIndex(option => option.value === value);
+  // The single tab stop of the group - also given the field's id so errors and review links can focus it
+  const tabStopIndex = Math.max(checkedIndex, 0);
+  const isOtherChosen = !!otherOption && value === otherOption.value;
+
+  const describedBy = [
+    helpText ? `${name}-help` : '',
+    error ? `${name}-error` : ''
+  ].filter(Boolean).join(' ');
+
+  const handleKeyDown = (event: React.KeyboardEvent, optionValue: string) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      onChange(optionValue);
+    }
+  };
+
+  // Handled here rather than left to the browser, whose radio arrow keys ignore the direction
+  const handleArrowKey = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const delta = getArrowKeyDelta(event.key, locale.dir);
+    if (delta === 0 || cards.length === 0) return;
+
+    event.preventDefault();
+    const focusedIndex = inputRefs.current.findIndex(input => input === event.target);
+    const fromIndex = focusedIndex >= 0 ? focusedIndex : tabStopIndex;
+    const nextIndex = (fromIndex + delta + cards.length) % cards.length;
+
+    inputRefs.current[nextIndex]?.focus();
+    onChange(cards[nextIndex].value);
+  };
+
+  /**
+   * Reports a blur once focus has left every card
+   */
+  const handleGroupBlur = (event: React.FocusEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node)) {
+      onBlur?.();
+    }
+  };
+
+  return (
+    <fieldset className="space-y-4">
+      <legend id={`${name}-legend`} className="block text-sm font-medium text-gray-700">
+        {legend}{required && ' *'}
+      </legend>
+      <div
+        className="grid sm:grid-cols-3 gap-3"
+        role="radiogroup"
+        aria-required={required}
+        aria-invalid={!!error}
+        aria-describedby={describedBy || undefined}
+        aria-labelledby={`${name}-legend`}
+        onKeyDown={handleArrowKey}
+        onBlur={handleGroupBlur}
+      >
+        {cards.map((option, index) => (
+          <label
+            key={option.value}
+            className={`relative flex items-center p-4 border rounded-lg cursor-pointer hover:bg-gray-50 transition-colors group focus-within:ring-2 focus-within:ring-blue-500 focus-within:ring-offset-2 ${
+              error ? 'border-red-300' : 'border-gray-200'
+            }`}
+          >
+            <input
+              ref={el => inputRefs.current[index] = el}
+              id={index === tabStopIndex ? name : `${name}-${option.value}`}
+              type="radio"
+              name={name}
+              value={option.value}
+              checked={value === option.value}
+              onChange={(e) => onChange(e.target.value)}
+              onKeyDown={(e) => handleKeyDown(e, option.value)}
+              className="h-4 w-4 text-blue-600 focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 border-gray-300"
+              aria-describedby={option.description ? `${name}-${option.value}-desc` : undefined}
+              tabIndex={index === tabStopIndex ? 0 : -1}
+            />
+            <div className="ms-3 flex-1">
+              <span className="text-gray-700 font-medium group-hover:text-gray-900">{option.label}</span>
+              {option.description && (
+                <p id={`${name}-${option.value}-desc`} className="text-xs text-gray-500 mt-1">
+                  {option.description}
+                </p>
+              )}
+            </div>
+            {value === option.value && (
+              <CheckCircle className="ms-auto w-4 h-4 text-blue-600" aria-hidden="true" />
+            )}
+          </label>
+        ))}
+      </div>
+
+      {/* "Other" Text - follows the cards in tab order while the option is chosen */}
+      {isOtherChosen && (
+        <FormField
+          id={getOtherFieldName(name)}
+          label={otherOption.inputLabel}
+          type="text"
+          value={otherValue}
+          onChange={text => onOtherChange?.(text)}
+          onBlur={onOtherBlur}
+          error={otherError}
+          required={otherRequired}
+          placeholder=""
+        />
+      )}
+
+      {helpText && (
+        <p id={`${name}-help`} className="text-sm text-gray-600">
+          {helpText}
+        </p>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div id={`${name}-error`} className="text-sm text-red-600 flex items-center gap-2" role="alert" aria-live="polite">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+          <span>{error}</span>
+        </div>
+      )}
+    </fieldset>
+  );
+};
+
+export default RadioCardGroup;
@@ -0,0 +1,90 @@
+
+import React from 'react';
+import { Pencil } from 'lucide-react';
+import { formatFieldValue, getSectionFields, type FormValues, type SectionSchema } from '@/lib/form-schema';
+import { isFieldVisible } from '@/lib/conditions';
+import { useI18n } from '@/hooks/use-i18n';
+
+interface ReviewSummaryProps {
+  /** Sections whose fields are summarised, in order */
+  sections: SectionSchema[];
+  /** Current form values */
+  values: FormValues;
+  /** Display label for each field, keyed by field name */
+  fieldLabels: Record<string, string>;
+  /** Called with the field name when the user chooses to edit it */
+  onEdit: (name: string) => void;
+  /** Receives the heading element so focus can be moved to it */
+  headingRef?: React.Ref<HTMLHeadingElement>;
+}
+
+/**
+ * Review summary component
+ * Lists every answer with its label before the form is sent, with an
+ * Edit link per answer that returns the user to that field
+ */
+const ReviewSummary: React.FC<ReviewSummaryProps> = ({
+  sections,
+  values,
+  fieldLabels,
+  onEdit,
+  headingRef
+}) => {
+  const { t } = useI18n();
+
+  return (
+    <section aria-labelledby="review-heading" className="space-y-6">
+      <div className="space-y-1">
+        <h2 id="review-heading" ref={headingRef} tabIndex={-1} className="text-xl font-semibold text-gray-900 focus:outline-none">
+          {t('review.title')}
+        </h2>
+        <p className="text-sm text-gray-600">
+          {t('review.description')}
+        </p>
+      </div>
+
+      {sections.map(section => (
+        <div key={section.id} className="rounded-xl border border-gray-200 p-6">
+          {section.legend && (
+            <h3 id={`review-${section.id}`} className="text-base font-semibold text-gray-900 mb-4">
+              {section.legend}
+            </h3>
+          )}
+          <dl
+            aria-labelledby={section.legend ? `review-${section.id}` : undefined}
+            className="divide-y divide-gray-100"
+          >
+            {getSectionFields(section).filter(field => isFieldVisible(field, values)).map(field => {
+              const label = fieldLabels[field.name] || field.label;
+              const displayValue = formatFieldValue(field, values[field.name], t);
+
+              return (
+                <div key={field.name} className="grid sm:grid-cols-3 gap-2 py-3">
+                  <dt className="text-sm font-medium text-gray-700">{label}</dt>
+                  <dd className={`text-sm sm:col-span-1 whitespace-pre-wrap break-words ${displayValue ? 'text-gray-900' : 'text-gray-500 italic'}`}>
+                    {displayValue || t('review.notProvided')}
+                  </dd>
+                  <dd className="sm:text-end">
+                    <a
+                      href={`#${field.name}`}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        onEdit(field.name);
+                      }}
+                      className="inline-flex items-center gap-1 text-sm font-medium text-blue-700 hover:text-blue-900 underline-offset-4 hover:underline focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+                    >
+                      <Pencil className="w-3.5 h-3.5" aria-hidden="true" />
+                      {t('review.edit')}<span className="sr-only"> {label}</span>
+                    </a>
+                  </dd>
+                </div>
+              );
+            })}
+          </dl>
+        </div>
+      ))}
+    </section>
+  );
+};
+
+export default ReviewSummary;
@@ -0,0 +1,245 @@
+
+import React from 'react';
+import FormField from './FormField';
+import CustomSelect from './CustomSelect';
+import RadioCardGroup from './RadioCardGroup';
+import CheckboxField from './CheckboxField';
+import PhoneField from './PhoneField';
+import EmailField from './EmailField';
+import FileField from './FileField';
+import DateField from './DateField';
+import TimeSlotPicker from './TimeSlotPicker';
+import { getOtherFieldName, OTHER_OPTION_VALUE, type FieldSchema, type FieldValue } from '@/lib/form-schema';
+import { getDateConstraints, getLengthLimits } from '@/lib/validation';
+
+interface SchemaFieldProps {
+  /** Schema describing the field to render */
+  field: FieldSchema;
+  /** Current value of the field */
+  value: FieldValue;
+  /** Error message to display if validation fails */
+  error?: string;
+  /** Whether the field is currently required - may depend on other answers */
+  required: boolean;
+  /** Whether an asynchronous check of the value is in progress */
+  pending?: boolean;
+  /** Callback function called when the field value changes */
+  onChange: (name: string, value: FieldValue) => void;
+  /** Callback function called when a text field or select loses focus */
+  onBlur?: (name: string) => void;
+  /** Text entered for a radio field's "Other" option */
+  otherValue?: FieldValue;
+  /** Error message for a radio field's "Other" text */
+  otherError?: string;
+  /** Upload progress of attached files as percentages, while the form is being submitted */
+  uploadProgress?: Map<File, number>;
+}
+
+/**
+ * Renders a single schema field with the matching input component
+ */
+const SchemaField: React.FC<SchemaFieldProps> = ({
+  field,
+  value,
+  error,
+  required,
+  pending,
+  onChange,
+  onBlur,
+  otherValue,
+  otherError,
+  uploadProgress
+}) => {
+  const handleChange = (newValue: FieldValue) => onChange(field.name, newValue);
+
+  switch (field.type) {
+    case 'select':
+      return (
+        <CustomSelect
+          id={field.name}
+          label={field.label}
+          value={String(value)}
+          onChange={handleChange}
+          options={field.options}
+          required={required}
+          helpText={field.helpText}
+          placeholder={field.placeholder}
+          filterable={field.filterable}
+          loadOptions={field.loadOptions}
+          onBlur={() => onBlur?.(field.name)}
+          error={error}
+          disabled={field.disabled}
+          readOnly={field.readOnly}
+        />
+      );
+
+    case 'multiselect':
+      return (
+        <CustomSelect
+          id={field.name}
+          label={field.label}
+          multiple
+          value={Array.isArray(value) ? (value as string[]) : []}
+          onChange={handleChange}
+          options={field.options}
+          required={required}
+          helpText={field.helpText}
+          placeholder={field.placeholder}
+          filterable={field.filterable}
+          loadOptions={field.loadOptions}
+          onBlur={() => onBlur?.(field.name)}
+          error={error}
+          disabled={field.disabled}
+          readOnly={field.readOnly}
+        />
+      );
+
+    case 'radio':
+      return (
+        <RadioCardGroup
+          name={field.name}
+          legend={field.label}
+          value={String(value)}
+          onChange={handleChange}
+          onBlur={() => onBlur?.(field.name)}
+          options={field.options}
+          required={required}
+          helpText={field.helpText}
+          error={error}
+          otherOption={field.other && {
+            value: OTHER_OPTION_VALUE,
+            label: field.other.label,
+            description: field.other.description,
+            inputLabel: field.other.inputLabel
+          }}
+          otherValue={String(otherValue ?? '')}
+          onOtherChange={text => onChange(getOtherFieldName(field.name), text)}
+          onOtherBlur={() => onBlur?.(getOtherFieldName(field.name))}
+          otherError={otherError}
+          otherRequired={field.other?.rules?.some(rule => rule.type === 'required')}
+        />
+      );
+
+    case 'phone':
+      return (
+        <PhoneField
+          id={field.name}
+          label={field.label}
+          value={String(value)}
+          onChange={handleChange}
+          onBlur={() => onBlur?.(field.name)}
+          error={error}
+          required={required}
+          autoComplete={field.autoComplete}
+          helpText={field.helpText}
+          pending={pending}
+          defaultCountry={field.defaultCountry}
+          countries={field.countries}
+        />
+      );
+
+    case 'email':
+      return (
+        <EmailField
+          id={field.name}
+          label={field.label}
+          value={String(value)}
+          onChange={handleChange}
+          onBlur={() => onBlur?.(field.name)}
+          error={error}
+          required={required}
+          autoComplete={field.autoComplete}
+          helpText={field.helpText}
+          pending={pending}
+        />
+      );
+
+    case 'file':
+      return (
+        <FileField
+          id={field.name}
+          label={field.label}
+          value={Array.isArray(value) ? (value as File[]) : []}
+          onChange={handleChange}
+          onBlur={() => onBlur?.(field.name)}
+          error={error}
+          required={required}
+          helpText={field.helpText}
+          accept={field.accept}
+          maxFileSizeBytes={field.maxFileSizeBytes}
+          maxFiles={field.maxFiles}
+          progress={uploadProgress}
+        />
+      );
+
+    case 'date':
+    case 'datetime':
+    case 'daterange':
+      return (
+        <DateField
+          id={field.name}
+          label={field.label}
+          mode={field.type}
+          value={String(value)}
+          onChange={handleChange}
+          onBlur={() => onBlur?.(field.name)}
+          error={error}
+          required={required}
+          helpText={field.helpText}
+          constraints={getDateConstraints(field)}
+        />
+      );
+
+    case 'timeslot':
+      return (
+        <TimeSlotPicker
+          id={field.name}
+          label={field.label}
+          value={String(value)}
+          onChange={handleChange}
+          onBlur={() => onBlur?.(field.name)}
+          error={error}
+          required={required}
+          helpText={field.helpText}
+          loadSlots={field.loadSlots}
+          days={field.days}
+        />
+      );
+
+    case 'checkbox':
+      return (
+        <CheckboxField
+          id={field.name}
+          label={field.label}
+          checked={Boolean(value)}
+          onChange={handleChange}
+          description={field.description}
+        />
+      );
+
+    default: {
+      const { min, max } = getLengthLimits(field);
+
+      return (
+        <FormField
+          id={field.name}
+          label={field.label}
+          type={field.type}
+          value={String(value)}
+          onChange={handleChange}
+          onBlur={() => onBlur?.(field.name)}
+          error={error}
+          required={required}
+          autoComplete={field.autoComplete}
+          helpText={field.helpText}
+          pending={pending}
+          minLength={min}
+          maxLength={max}
+          softLimit={field.softLimit}
+        />
+      );
+    }
+  }
+};
+
+export default SchemaField;
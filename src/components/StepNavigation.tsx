@@ -0,0 +1,64 @@
+
+import React from 'react';
+import { ArrowLeft, ArrowRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useI18n } from '@/hooks/use-i18n';
+import SubmitSection from './SubmitSection';
+
+interface StepNavigationProps {
+  isFirstStep: boolean;
+  isLastStep: boolean;
+  isSubmitting: boolean;
+  /** Whether navigation is waiting for async field checks to finish */
+  isValidating?: boolean;
+  /** Returns to the previous step */
+  onBack: () => void;
+  /** Validates the current step and moves to the next one */
+  onNext: () => void;
+}
+
+/**
+ * Step navigation component for wizard mode
+ * Contains the Back and Next buttons, and the submit button on the last step
+ */
+const StepNavigation: React.FC<StepNavigationProps> = ({
+  isFirstStep,
+  isLastStep,
+  isSubmitting,
+  isValidating = false,
+  onBack,
+  onNext
+}) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4 pt-4">
+        {!isFirstStep ? (
+          <Button type="button" variant="outline" size="lg" onClick={onBack} disabled={isSubmitting}>
+            <ArrowLeft className="w-4 h-4 rtl:-scale-x-100" aria-hidden="true" />
+            {t('steps.back')}
+          </Button>
+        ) : (
+          <span />
+        )}
+        {!isLastStep && (
+          <Button
+            type="button"
+            size="lg"
+            onClick={onNext}
+            disabled={isValidating}
+            className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white"
+          >
+            {t('steps.next')}
+            <ArrowRight className="w-4 h-4 rtl:-scale-x-100" aria-hidden="true" />
+          </Button>
+        )}
+      </div>
+
+      {isLastStep && <SubmitSection isSubmitting={isSubmitting} isValidating={isValidating} />}
+    </div>
+  );
+};
+
+export default StepNavigation;
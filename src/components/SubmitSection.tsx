@@ -2,41 +2,52 @@
 import React from 'react';
 import { Button } from "@/components/ui/button";
 import { Send } from 'lucide-react';
+import { useI18n } from '@/hooks/use-i18n';
 
 interface SubmitSectionProps {
   isSubmitting: boolean;
+  /** Whether submission is waiting for async field checks to finish */
+  isValidating?: boolean;
 }
 
 /**
  * Submit section component
  * Contains the submit button and help text
  */
-const SubmitSection: React.FC<SubmitSectionProps> = ({ isSubmitting }) => {
+const SubmitSection: React.FC<SubmitSectionProps> = ({ isSubmitting, isValidating = false }) => {
+  const { t } = useI18n();
+
   return (
     <div className="flex flex-col sm:flex-row items-center justify-between gap-4 pt-4">
       <Button
         type="submit"
-        disabled={isSubmitting}
+        disabled={isSubmitting || isValidating}
         size="lg"
         className="w-full sm:w-auto bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white px-8 py-3 rounded-lg font-medium focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl transition-all duration-200"
         aria-describedby="submit-help"
       >
         {isSubmitting ? (
           <>
-            <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent mr-2" aria-hidden="true"></div>
-            <span>Submitting...</span>
-            <span className="sr-only">Please wait while we submit your message</span>
+            <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent me-2" aria-hidden="true"></div>
+            <span>{t('submit.submitting')}</span>
+            <span className="sr-only">{t('submit.submittingHint')}</span>
+          </>
+        ) : isValidating ? (
+          <>
+            <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent me-2" aria-hidden="true"></div>
+            <span>{t('submit.checking')}</span>
+            <span className="sr-only">{t('submit.checkingHint')}</span>
           </>
         ) : (
           <>
-            <Send className="w-4 h-4 mr-2" aria-hidden="true" />
-            Send Message
+            <Send className="w-4 h-4 me-2 rtl:-scale-x-100" aria-hidden="true" />
+            {t('submit.send')}
           </>
         )}
       </Button>
       
-      <p id="submit-help" className="text-sm text-gray-500 text-center sm:text-left">
-        By submitting, you agree to our terms and privacy policy
+      <p id="submit-help" className="text-sm text-gray-500 text-center sm:text-start">
+        {t('submit.terms')}
       </p>
     </div>
   );
@@ -0,0 +1,368 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertCircle, ChevronLeft, ChevronRight, Loader2, X } from 'lucide-react';
+import { addDays } from 'date-fns';
+import { useI18n } from '@/hooks/use-i18n';
+import { useTimeSlots } from '@/hooks/use-time-slots';
+import { getUserTimeZone, groupSlotsByDay, type AvailabilityProvider, type TimeSlot } from '@/lib/availability';
+import { parseIsoDate, parseIsoInstant, toIsoDate } from '@/lib/dates';
+import { getArrowKeyDelta } from '@/lib/direction';
+
+interface TimeSlotPickerProps {
+  /** Unique identifier for the field - given to the grid, which passes focus on to a slot */
+  id: string;
+  /** Display label for the field */
+  label: string;
+  /** Start of the picked slot as an ISO instant, or empty */
+  value: string;
+  /** Callback function called when a slot is picked or the choice is cleared */
+  onChange: (value: string) => void;
+  /** Callback function called when focus leaves the field */
+  onBlur?: () => void;
+  /** Error message to display if validation fails */
+  error?: string;
+  /** Whether a slot is required for form submission */
+  required?: boolean;
+  /** Additional help text to guide the user */
+  helpText?: string;
+  /** Loads the slots of the days shown */
+  loadSlots: AvailabilityProvider;
+  /** Number of days shown at a time */
+  days?: number;
+}
+
+interface CellPosition {
+  row: number;
+  col: number;
+}
+
+const TAB_STOP_SELECTOR = '[role="gridcell"][tabindex="0"]';
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Time slot picker component
+ * Lists the free slots of a few days at a time as a grid with one row per
+ * day, in the user's time zone. The grid is a single tab stop: arrow keys
+ * move between slots and days, Home and End jump within a day, Page Up and
+ * Page Down show the previous or next days, and Enter or Space picks a slot.
+ * Taken slots are listed but cannot be picked. Picks and newly shown days are
+ * announced to screen readers.
+ */
+const TimeSlotPicker: React.FC<TimeSlotPickerProps> = ({
+  id,
+  label,
+  value,
+  onChange,
+  onBlur,
+  error,
+  required = false,
+  helpText,
+  loadSlots,
+  days = 5
+}) => {
+  const { locale, t } = useI18n();
+  const timeZone = useMemo(getUserTimeZone, []);
+  const today = toIsoDate(new Date());
+  // Start on the day of a restored pick, as long as it has not passed
+  const [from, setFrom] = useState(() => {
+    const picked = parseIsoInstant(value);
+    return picked && toIsoDate(picked) > today ? toIsoDate(picked) : today;
+  });
+  const [activeCell, setActiveCell] = useState<CellPosition | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const gridRef = useRef<HTMLDivElement>(null);
+  // How the user last moved to other days, until those days have loaded
+  const pagedByRef = useRef<'button' | 'keyboard' | null>(null);
+
+  const { slots, isLoading, isError, retry } = useTimeSlots(loadSlots, { cacheKey: id, from, days, timeZone });
+  const rows = useMemo(() => groupSlotsByDay(slots, from, days), [slots, from, days]);
+  const lastDay = rows[rows.length - 1]?.day ?? from;
+
+  const { dayFormat, timeFormat, timeZoneName } = useMemo(() => ({
+    dayFormat: new Intl.DateTimeFormat(locale.code, { weekday: 'long', month: 'long', day: 'numeric' }),
+    timeFormat: new Intl.DateTimeFormat(locale.code, { hour: 'numeric', minute: '2-digit' }),
+    timeZoneName: new Intl.DateTimeFormat(locale.code, { timeZoneName: 'long' })
+      .formatToParts(new Date())
+      .find(part => part.type === 'timeZoneName')?.value ?? timeZone
+  }), [locale.code, timeZone]);
+
+  const findCell = (predicate: (slot: TimeSlot) => boolean): CellPosition | undefined => {
+    for (const [row, { slots: daySlots }] of rows.entries()) {
+      const col = daySlots.findIndex(predicate);
+      if (col >= 0) return { row, col };
+    }
+    return undefined;
+  };
+
+  const rowLength = (row: number) => Math.max(rows[row]?.slots.length ?? 0, 1);
+  const isInGrid = (cell: CellPosition) => cell.row < rows.length && cell.col < rowLength(cell.row);
+
+  // The grid's single tab stop - the last focused slot, the picked one or the first free one
+  const tabStop = (activeCell && isInGrid(activeCell) ? activeCell : undefined)
+    ?? findCell(slot => slot.start === value)
+    ?? findCell(slot => slot.available)
+    ?? { row: 0, col: 0 };
+
+  const focusTabStop = () => {
+    gridRef.current?.querySelector<HTMLElement>(TAB_STOP_SELECTOR)?.focus();
+  };
+
+  // Announce newly shown days once they load. Paging from the keyboard keeps
+  // focus in the grid - on the grid itself while loading, then on a slot.
+  useEffect(() => {
+    const pagedBy = pagedByRef.current;
+    if (!pagedBy) return;
+
+    if (isLoading) {
+      if (pagedBy === 'keyboard') gridRef.current?.focus();
+      return;
+    }
+
+    pagedByRef.current = null;
+    const available = slots.filter(slot => slot.available).length;
+    setAnnouncement(isError ? t('slot.loadFailed') : t('slot.showing', { start: from, end: lastDay, count: available }));
+    if (pagedBy === 'keyboard') {
+      gridRef.current?.querySelector<HTMLElement>(TAB_STOP_SELECTOR)?.focus();
+    }
+  }, [isLoading, isError, slots, from, lastDay, t]);
+
+  const changeDays = (direction: number, pagedBy: 'button' | 'keyboard') => {
+    const start = parseIsoDate(from) ?? new Date();
+    const next = toIsoDate(addDays(start, direction * days));
+    setFrom(next < today ? today : next);
+    setActiveCell(null);
+    pagedByRef.current = pagedBy;
+  };
+
+  const handleSelect = (slot: TimeSlot, cell: CellPosition) => {
+    setActiveCell(cell);
+    if (!slot.available) return;
+
+    onChange(slot.start);
+    setAnnouncement(t('slot.selected', { time: slot.start }));
+  };
+
+  const handleClear = () => {
+    onChange('');
+    setAnnouncement(t('slot.cleared'));
+    focusTabStop();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (isLoading || isError) return;
+
+    const { row, col } = tabStop;
+    const horizontal = getArrowKeyDelta(e.key, locale.dir, { vertical: false });
+    const vertical = getArrowKeyDelta(e.key, locale.dir, { horizontal: false });
+    const lastRow = rows.length - 1;
+    let next: CellPosition | undefined;
+
+    if (horizontal !== 0) {
+      next = { row, col: clamp(col + horizontal, 0, rowLength(row) - 1) };
+    } else if (vertical !== 0) {
+      const nextRow = clamp(row + vertical, 0, lastRow);
+      next = { row: nextRow, col: Math.min(col, rowLength(nextRow) - 1) };
+    } else if (e.key === 'Home') {
+      next = e.ctrlKey ? { row: 0, col: 0 } : { row, col: 0 };
+    } else if (e.key === 'End') {
+      next = e.ctrlKey ? { row: lastRow, col: rowLength(lastRow) - 1 } : { row, col: rowLength(row) - 1 };
+    } else if (e.key === 'PageUp' || e.key === 'PageDown') {
+      e.preventDefault();
+      if (e.key === 'PageUp' && from <= today) return;
+      changeDays(e.key === 'PageUp' ? -1 : 1, 'keyboard');
+      return;
+    } else if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      const slot = rows[row]?.slots[col];
+      if (slot) handleSelect(slot, { row, col });
+      return;
+    }
+
+    if (next) {
+      e.preventDefault();
+      setActiveCell(next);
+      gridRef.current?.querySelector<HTMLElement>(`[data-cell="${next.row}-${next.col}"]`)?.focus();
+    }
+  };
+
+  /**
+   * Reports a blur once focus has left every part of the field
+   */
+  const handleContainerBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+      onBlur?.();
+    }
+  };
+
+  const picked = parseIsoInstant(value);
+
+  // Build describedBy attribute for accessibility
+  const describedBy = [
+    `${id}-timezone`,
+    picked ? `${id}-selected` : '',
+    helpText ? `${id}-help` : '',
+    error ? `${id}-error` : ''
+  ].filter(Boolean).join(' ');
+
+  const navButtonClasses = 'rounded-lg border border-gray-300 bg-white p-2 text-gray-700 hover:border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:cursor-not-allowed disabled:opacity-50';
+
+  const cellClasses = (slot: TimeSlot | undefined, isPicked: boolean) =>
+    `rounded-lg border px-3 py-2 text-sm tabular-nums focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-1 ${
+      !slot
+        ? 'border-transparent text-gray-500'
+        : isPicked
+        ? 'border-blue-600 bg-blue-600 text-white cursor-pointer'
+        : slot.available
+        ? 'border-gray-300 bg-white text-gray-900 cursor-pointer hover:border-blue-400 hover:bg-blue-50'
+        : 'border-gray-200 bg-gray-50 text-gray-400 line-through cursor-not-allowed'
+    }`;
+
+  return (
+    <div className="space-y-3" onBlur={handleContainerBlur}>
+      {/* Field Label - the grid is named by it, since a grid cannot be the target of a label element */}
+      <div id={`${id}-label`} className="block text-sm font-medium text-gray-900">
+        {label}
+        {required && (
+          <span className="text-red-500 ms-1" aria-label={t('field.requiredMarker')}>*</span>
+        )}
+      </div>
+      <p id={`${id}-timezone`} className="text-sm text-gray-600">
+        {t('slot.timeZone', { timeZone: timeZoneName })}
+      </p>
+
+      {/* Day Navigation */}
+      <div className="flex items-center justify-between gap-2">
+        <button
+          type="button"
+          onClick={() => changeDays(-1, 'button')}
+          disabled={from <= today}
+          className={navButtonClasses}
+          aria-label={t('slot.earlier')}
+        >
+          <ChevronLeft className="w-4 h-4 rtl:-scale-x-100" aria-hidden="true" />
+        </button>
+        <p className="text-sm font-medium text-gray-900 text-center">
+          {t('slot.range', { start: from, end: lastDay })}
+        </p>
+        <button
+          type="button"
+          onClick={() => changeDays(1, 'button')}
+          className={navButtonClasses}
+          aria-label={t('slot.later')}
+        >
+          <ChevronRight className="w-4 h-4 rtl:-scale-x-100" aria-hidden="true" />
+        </button>
+      </div>
+
+      {/* Slot Grid */}
+      <div
+        ref={gridRef}
+        id={id}
+        role="grid"
+        tabIndex={-1}
+        aria-labelledby={`${id}-label`}
+        aria-describedby={describedBy}
+        aria-invalid={!!error}
+        aria-busy={isLoading || undefined}
+        onKeyDown={handleKeyDown}
+        onFocus={e => {
+          // Focus given to the grid itself, e.g. from the error summary, moves on to a slot
+          if (e.target === e.currentTarget && !isLoading) focusTabStop();
+        }}
+        className={`rounded-lg border bg-white px-4 focus:outline-none ${error ? 'border-red-300' : 'border-gray-200'}`}
+      >
+        {isLoading ? (
+          <div role="row">
+            <div role="gridcell" className="flex items-center gap-2 py-4 text-sm text-gray-600">
+              <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" />
+              {t('slot.loading')}
+            </div>
+          </div>
+        ) : isError ? (
+          <div role="row">
+            <div role="gridcell" className="flex items-center gap-2 py-4 text-sm text-red-700">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+              <span>{t('slot.loadFailed')}</span>
+              <button
+                type="button"
+                onClick={() => retry()}
+                className="font-medium text-blue-700 underline underline-offset-2 rounded hover:text-blue-900 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+              >
+                {t('select.retry')}
+              </button>
+            </div>
+          </div>
+        ) : (
+          rows.map((row, rowIndex) => (
+            <div role="row" key={row.day} className="flex flex-wrap items-center gap-2 border-b border-gray-100 py-3 last:border-b-0">
+              <div role="rowheader" className="w-full text-sm font-medium text-gray-900 sm:w-48">
+                {dayFormat.format(parseIsoDate(row.day) ?? new Date())}
+              </div>
+              {(row.slots.length > 0 ? row.slots : [undefined]).map((slot, colIndex) => {
+                const isPicked = !!slot && slot.start === value;
+                const isTabStop = tabStop.row === rowIndex && tabStop.col === colIndex;
+
+                return (
+                  <div
+                    key={slot?.start ?? 'none'}
+                    role="gridcell"
+                    data-cell={`${rowIndex}-${colIndex}`}
+                    tabIndex={isTabStop ? 0 : -1}
+                    aria-selected={slot ? isPicked : undefined}
+                    aria-disabled={!slot || !slot.available || undefined}
+                    onClick={() => slot && handleSelect(slot, { row: rowIndex, col: colIndex })}
+                    onFocus={() => setActiveCell({ row: rowIndex, col: colIndex })}
+                    className={cellClasses(slot, isPicked)}
+                  >
+                    {slot ? timeFormat.format(new Date(slot.start)) : t('slot.noneThisDay')}
+                    {slot && !slot.available && <span className="sr-only"> {t('slot.taken')}</span>}
+                  </div>
+                );
+              })}
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Picked Slot */}
+      {picked && (
+        <div className="flex items-center justify-between gap-3 rounded-lg bg-blue-50 px-3 py-2">
+          <p id={`${id}-selected`} className="text-sm text-blue-900">
+            {t('slot.pickedSummary', { time: value })}
+          </p>
+          <button
+            type="button"
+            onClick={handleClear}
+            className="flex items-center gap-1 rounded p-1 text-sm text-blue-800 hover:bg-blue-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <X className="w-4 h-4" aria-hidden="true" />
+            {t('slot.clear')}
+          </button>
+        </div>
+      )}
+
+      {/* Help Text */}
+      {helpText && (
+        <p id={`${id}-help`} className="text-sm text-gray-600">
+          {helpText}
+        </p>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div id={`${id}-error`} className="text-sm text-red-600 flex items-center gap-2" role="alert" aria-live="polite">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* Screen Reader Status Announcements */}
+      <div id={`${id}-status`} role="status" aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+    </div>
+  );
+};
+
+export default TimeSlotPicker;
@@ -0,0 +1,169 @@
+import type { FormSchema } from '@/lib/form-schema';
+import { date, email, maxLength, minLength, phone, required, slotAvailable, upcoming } from '@/lib/validation';
+import { disposableEmailDomains } from '@/lib/email';
+import { defaultAvailabilityProvider } from '@/lib/default-availability';
+import { getUsFederalHolidays } from '@/lib/holidays';
+
+/**
+ * Schema for the public contact form.
+ * Text is given as message keys, translated by the catalogs in src/locales.
+ */
+export const contactFormSchema: FormSchema = {
+  id: 'contact-form',
+  title: 'contact.title',
+  description: 'contact.description',
+  ariaLabel: 'contact.ariaLabel',
+  sections: [
+    {
+      id: 'personal-info',
+      legend: 'contact.personalInfo',
+      variant: 'info',
+      fields: [
+        {
+          name: 'firstName',
+          label: 'contact.firstName.label',
+          type: 'text',
+          width: 'half',
+          autoComplete: 'given-name',
+          rules: [required('contact.firstName.required')]
+        },
+        {
+          name: 'lastName',
+          label: 'contact.lastName.label',
+          type: 'text',
+          width: 'half',
+          autoComplete: 'family-name',
+          rules: [required('contact.lastName.required')]
+        },
+        {
+          name: 'email',
+          label: 'contact.email.label',
+          type: 'email',
+          width: 'half',
+          autoComplete: 'email',
+          helpText: 'contact.email.help',
+          rules: [required('contact.email.required'), email(undefined, { blocklist: disposableEmailDomains })]
+        },
+        {
+          name: 'phone',
+          label: 'contact.phone.label',
+          type: 'phone',
+          width: 'half',
+          autoComplete: 'tel',
+          helpText: 'contact.phone.help',
+          rules: [required('contact.phone.required'), phone()],
+          requiredWhen: { field: 'contactMethod', equals: 'phone' }
+        }
+      ]
+    },
+    {
+      id: 'message-details',
+      legend: 'contact.messageDetails',
+      variant: 'neutral',
+      fields: [
+        {
+          name: 'subject',
+          label: 'contact.subject.label',
+          type: 'text',
+          helpText: 'contact.subject.help',
+          rules: [required('contact.subject.required')]
+        },
+        {
+          name: 'message',
+          label: 'contact.message.label',
+          type: 'textarea',
+          helpText: 'contact.message.help',
+          rules: [
+            required('contact.message.required'),
+            minLength(10, 'contact.message.tooShort'),
+            maxLength(2000, 'contact.message.tooLong')
+          ],
+          // Pasted text is kept whole, so nothing is lost before the user can shorten it
+          softLimit: true
+        },
+        {
+          name: 'issueStartedAt',
+          label: 'contact.issueStartedAt.label',
+          type: 'date',
+          helpText: 'contact.issueStartedAt.help',
+          rules: [date(undefined, { max: 'today' })]
+        },
+        {
+          name: 'attachments',
+          label: 'contact.attachments.label',
+          type: 'file',
+          helpText: 'contact.attachments.help',
+          accept: ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf'],
+          maxFileSizeBytes: 10 * 1024 * 1024,
+          maxFiles: 5
+        },
+        {
+          name: 'contactMethod',
+          label: 'contact.contactMethod.label',
+          type: 'radio',
+          defaultValue: 'email',
+          rules: [required('contact.contactMethod.required')],
+          helpText: 'contact.contactMethod.help',
+          options: [
+            { value: 'email', label: 'contact.contactMethod.email', description: 'contact.contactMethod.emailDescription' },
+            { value: 'phone', label: 'contact.contactMethod.phone', description: 'contact.contactMethod.phoneDescription' },
+            { value: 'either', label: 'contact.contactMethod.either', description: 'contact.contactMethod.eitherDescription' }
+          ]
+        },
+        {
+          name: 'callbackSlot',
+          label: 'contact.callbackSlot.label',
+          type: 'timeslot',
+          helpText: 'contact.callbackSlot.help',
+          loadSlots: defaultAvailabilityProvider,
+          rules: [upcoming(), slotAvailable(defaultAvailabilityProvider)],
+          visibleWhen: { field: 'contactMethod', equals: 'phone' }
+        },
+        {
+          name: 'urgency',
+          label: 'contact.urgency.label',
+          type: 'select',
+          defaultValue: 'medium',
+          rules: [required('contact.urgency.required')],
+          helpText: 'contact.urgency.help',
+          placeholder: 'contact.urgency.placeholder',
+          options: [
+            { value: 'low', label: 'contact.urgency.low' },
+            { value: 'medium', label: 'contact.urgency.medium' },
+            { value: 'high', label: 'contact.urgency.high' },
+            { value: 'urgent', label: 'contact.urgency.urgent' }
+          ]
+        }
+      ]
+    },
+    {
+      id: 'newsletter',
+      variant: 'success',
+      fields: [
+        {
+          name: 'newsletter',
+          label: 'contact.newsletter.label',
+          type: 'checkbox',
+          description: 'contact.newsletter.description'
+        }
+      ]
+    }
+  ],
+  steps: [
+    { id: 'personal', title: 'contact.personalInfo', sections: ['personal-info'] },
+    { id: 'message', title: 'contact.messageDetails', sections: ['message-details'] },
+    { id: 'review', title: 'contact.newsletterAndReview', sections: ['newsletter'] }
+  ],
+  // Keep the targets in step with the promises in the contact.urgency.* option labels
+  sla: {
+    field: 'urgency',
+    targets: {
+      low: { businessDays: 5 },
+      medium: { businessDays: 2 },
+      high: { hours: 24 },
+      urgent: { hours: 4 }
+    },
+    businessHours: { timeZone: 'America/New_York', days: [1, 2, 3, 4, 5], open: '09:00', close: '17:00' },
+    holidays: getUsFederalHolidays
+  }
+};
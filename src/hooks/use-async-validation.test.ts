@@ -0,0 +1,173 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FieldSchema } from '@/lib/form-schema';
+import { asyncRule, slotAvailable } from '@/lib/validation';
+import { useAsyncValidation } from './use-async-validation';
+
+const tagsField = (check: Parameters<typeof asyncRule>[0]): FieldSchema => ({
+  name: 'tags',
+  label: 'Tags',
+  type: 'multiselect',
+  options: [],
+  rules: [asyncRule(check, 'Some tags are not allowed', { debounceMs: 300 })]
+}) as FieldSchema;
+
+describe('useAsyncValidation', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('checks once the value stops changing', async () => {
+    const check = vi.fn(async () => true);
+    const field = tagsField(check);
+    const { result } = renderHook(() => useAsyncValidation());
+
+    act(() => {
+      result.current.schedule(field, { tags: ['a'] });
+    });
+    act(() => {
+      vi.advanceTimersByTime(200);
+      result.current.schedule(field, { tags: ['a', 'b'] });
+    });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(300);
+    });
+
+    expect(check).toHaveBeenCalledTimes(1);
+    expect(check).toHaveBeenCalledWith(['a', 'b'], { tags: ['a', 'b'] }, expect.any(AbortSignal));
+    expect(result.current.pending.tags).toBe(false);
+  });
+
+  it('does not schedule again for an equal list', () => {
+    const check = vi.fn(async () => true);
+    const field = tagsField(check);
+    const { result } = renderHook(() => useAsyncValidation());
+
+    act(() => {
+      result.current.schedule(field, { tags: ['a'] });
+      vi.advanceTimersByTime(200);
+      result.current.schedule(field, { tags: ['a'] });
+      vi.advanceTimersByTime(100);
+    });
+
+    expect(check).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts a running check when the value changes', async () => {
+    const signals: AbortSignal[] = [];
+    const field = tagsField((_value, _values, signal) => {
+      signals.push(signal);
+      return new Promise(() => undefined);
+    });
+    const { result } = renderHook(() => useAsyncValidation());
+
+    act(() => {
+      result.current.schedule(field, { tags: ['a'] });
+      vi.advanceTimersByTime(300);
+    });
+    expect(result.current.pending.tags).toBe(true);
+
+    act(() => {
+      result.current.schedule(field, { tags: ['b'] });
+    });
+
+    expect(signals).toHaveLength(1);
+    expect(signals[0].aborted).toBe(true);
+  });
+
+  it('reuses a finished check for an equal list when settling', async () => {
+    const check = vi.fn(async () => 'Tag "a" is reserved');
+    const field = tagsField(check);
+    const { result } = renderHook(() => useAsyncValidation());
+
+    act(() => {
+      result.current.schedule(field, { tags: ['a'] });
+    });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(300);
+    });
+    expect(result.current.asyncErrors).toEqual({ tags: 'Tag "a" is reserved' });
+
+    let errors = {};
+    await act(async () => {
+      // A new array with the same options, as the form state holds after re-rendering
+      errors = await result.current.settle([field], { tags: ['a'] });
+    });
+
+    expect(check).toHaveBeenCalledTimes(1);
+    expect(errors).toEqual({ tags: 'Tag "a" is reserved' });
+  });
+
+  it('checks again when settling a field whose result goes stale', async () => {
+    const loadSlots = vi.fn(async () => [
+      { start: '2024-05-15T14:00:00.000Z', end: '2024-05-15T14:30:00.000Z', available: true }
+    ]);
+    const field = { name: 'callbackSlot', label: 'Callback', type: 'timeslot', loadSlots, rules: [slotAvailable(loadSlots)] } as FieldSchema;
+    const values = { callbackSlot: '2024-05-15T14:00:00.000Z' };
+    const { result } = renderHook(() => useAsyncValidation());
+
+    act(() => {
+      result.current.schedule(field, values);
+    });
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(0);
+    });
+    expect(loadSlots).toHaveBeenCalledTimes(1);
+
+    // Someone else books the slot in the meantime
+    loadSlots.mockResolvedValue([
+      { start: '2024-05-15T14:00:00.000Z', end: '2024-05-15T14:30:00.000Z', available: false }
+    ]);
+    let errors = {};
+    await act(async () => {
+      errors = await result.current.settle([field], values);
+    });
+
+    expect(loadSlots).toHaveBeenCalledTimes(2);
+    expect(errors).toEqual({ callbackSlot: 'validation.slotAvailable' });
+  });
+
+  it('runs debounced checks straight away when settling', async () => {
+    const check = vi.fn(async () => false);
+    const field = tagsField(check);
+    const { result } = renderHook(() => useAsyncValidation());
+
+    act(() => {
+      result.current.schedule(field, { tags: ['a'] });
+    });
+
+    let errors = {};
+    await act(async () => {
+      errors = await result.current.settle([field], { tags: ['a'] });
+    });
+
+    expect(check).toHaveBeenCalledTimes(1);
+    expect(errors).toEqual({ tags: 'Some tags are not allowed' });
+
+    // The debounced check was cancelled, so it does not run again
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(300);
+    });
+    expect(check).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not block the form when a check fails to run', async () => {
+    const field = tagsField(async () => {
+      throw new TypeError('Failed to fetch');
+    });
+    const { result } = renderHook(() => useAsyncValidation());
+
+    let errors = {};
+    await act(async () => {
+      errors = await result.current.settle([field], { tags: ['a'] });
+    });
+
+    expect(errors).toEqual({});
+    expect(result.current.pending.tags).toBe(false);
+  });
+});
@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isSameValue, type FieldSchema, type FieldValue, type FormErrors, type FormValues } from '@/lib/form-schema';
+import { getAsyncRules, validateFieldAsync } from '@/lib/validation';
+
+interface AsyncRun {
+  /** Value the run checks - a finished run is reused while the value is unchanged */
+  value: FieldValue;
+  timer?: ReturnType<typeof setTimeout>;
+  controller?: AbortController;
+  result?: Promise<string | undefined>;
+}
+
+/**
+ * Runs fields' asynchronous validation rules with debouncing, aborts checks
+ * that became stale because the value changed, and tracks which fields are
+ * waiting for a result.
+ */
+export function useAsyncValidation() {
+  const [asyncErrors, setAsyncErrors] = useState<FormErrors>({});
+  const [pending, setPending] = useState<Record<string, boolean>>({});
+  const runsRef = useRef<Record<string, AsyncRun>>({});
+
+  const setFieldPending = (name: string, isPending: boolean) =>
+    setPending(prev => (Boolean(prev[name]) === isPending ? prev : { ...prev, [name]: isPending }));
+
+  const setFieldError = (name: string, error: string | undefined) =>
+    setAsyncErrors(prev => {
+      if (prev[name] === error) return prev;
+      const { [name]: _previous, ...rest } = prev;
+      return error ? { ...rest, [name]: error } : rest;
+    });
+
+  /**
+   * Stops any scheduled or running check for the field and forgets its result
+   */
+  const cancel = useCallback((name: string) => {
+    const run = runsRef.current[name];
+    if (run) {
+      clearTimeout(run.timer);
+      run.controller?.abort();
+      delete runsRef.current[name];
+    }
+    setFieldPending(name, false);
+    setFieldError(name, undefined);
+  }, []);
+
+  /**
+   * Starts checking the field now
+   */
+  const run = useCallback((field: FieldSchema, values: FormValues): Promise<string | undefined> => {
+    const controller = new AbortController();
+    const entry: AsyncRun = { value: values[field.name], controller };
+    runsRef.current[field.name] = entry;
+    setFieldPending(field.name, true);
+
+    entry.result = validateFieldAsync(field, values, controller.signal)
+      // A check that fails to run (e.g. offline) must not block the user
+      .catch(() => undefined)
+      .then(error => {
+        if (!controller.signal.aborted) {
+          setFieldError(field.name, error);
+          setFieldPending(field.name, false);
+        }
+        return error;
+      });
+
+    return entry.result;
+  }, []);
+
+  /**
+   * Checks the field once the user stops changing it. Does nothing when the
+   * same value has already been checked or is being checked.
+   */
+  const schedule = useCallback((field: FieldSchema, values: FormValues) => {
+    const rules = getAsyncRules(field);
+    if (rules.length === 0) return;
+
+    const existing = runsRef.current[field.name];
+    if (existing && isSameValue(existing.value, values[field.name])) return;
+
+    cancel(field.name);
+    const debounceMs = Math.max(...rules.map(rule => rule.debounceMs));
+    runsRef.current[field.name] = {
+      value: values[field.name],
+      timer: setTimeout(() => run(field, values), debounceMs)
+    };
+  }, [cancel, run]);
+
+  /**
+   * Waits for the fields' checks to finish, starting any that are still
+   * debounced or were never run, and returns their errors. Fields with a
+   * rule that rechecks on submit are always checked again.
+   */
+  const settle = useCallback(async (fields: FieldSchema[], values: FormValues): Promise<FormErrors> => {
+    const results = await Promise.all(
+      fields
+        .filter(field => getAsyncRules(field).length > 0)
+        .map(async field => {
+          const existing = runsRef.current[field.name];
+          const mustRecheck = getAsyncRules(field).some(rule => rule.recheckOnSubmit);
+          if (!mustRecheck && existing?.result && isSameValue(existing.value, values[field.name])) {
+            return [field.name, await existing.result] as const;
+          }
+
+          cancel(field.name);
+          return [field.name, await run(field, values)] as const;
+        })
+    );
+
+    return Object.fromEntries(results.filter(([, error]) => error));
+  }, [cancel, run]);
+
+  /**
+   * Cancels every check and clears all results
+   */
+  const cancelAll = useCallback(() => {
+    Object.keys(runsRef.current).forEach(cancel);
+    setAsyncErrors({});
+    setPending({});
+  }, [cancel]);
+
+  // Abort outstanding checks when the form unmounts
+  useEffect(() => () => {
+    Object.values(runsRef.current).forEach(entry => {
+      clearTimeout(entry.timer);
+      entry.controller?.abort();
+    });
+  }, []);
+
+  return { asyncErrors, pending, schedule, settle, cancel, cancelAll };
+}
@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isSameValue, type FieldSchema, type FormValues } from '@/lib/form-schema';
+
+const STORAGE_PREFIX = 'aria-form:draft:';
+
+/**
+ * Draft as stored in localStorage
+ */
+export interface FormDraft {
+  /** ISO timestamp of the last save */
+  savedAt: string;
+  values: FormValues;
+}
+
+interface UseFormDraftOptions {
+  /** Scopes the draft - each form id has its own storage entry */
+  formId: string;
+  /** Fields of the form - sensitive ones are never written to storage */
+  fields: FieldSchema[];
+  /** Current form values */
+  values: FormValues;
+  /** Values of an untouched form - no draft is kept while these are unchanged */
+  initialValues: FormValues;
+  /** Milliseconds to wait after the last change before saving */
+  delayMs?: number;
+  /** Turns autosave off entirely */
+  enabled?: boolean;
+}
+
+const storageKey = (formId: string) => `${STORAGE_PREFIX}${formId}`;
+
+// Storage can be unavailable (private mode, quota, disabled cookies) - drafts are best effort
+const readDraft = (formId: string): FormDraft | null => {
+  try {
+    const raw = window.localStorage.getItem(storageKey(formId));
+    if (!raw) return null;
+
+    const draft = JSON.parse(raw) as FormDraft;
+    return draft && typeof draft.values === 'object' ? draft : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeDraft = (formId: string, draft: FormDraft) => {
+  try {
+    window.localStorage.setItem(storageKey(formId), JSON.stringify(draft));
+  } catch {
+    // Ignore - the draft simply is not saved
+  }
+};
+
+const removeDraft = (formId: string) => {
+  try {
+    window.localStorage.removeItem(storageKey(formId));
+  } catch {
+    // Ignore - nothing to clean up
+  }
+};
+
+/**
+ * Keeps only the values that should be persisted - attached files cannot be
+ * stored, so attachment fields are skipped too
+ */
+const pickPersistable = (fields: FieldSchema[], values: FormValues): FormValues =>
+  Object.fromEntries(
+    fields
+      .filter(field => !field.sensitive && field.type !== 'file' && field.name in values)
+      .map(field => [field.name, values[field.name]])
+  );
+
+/**
+ * Autosaves in-progress form values to localStorage and offers a saved draft
+ * for restoring when the form is opened again.
+ *
+ * Saving is paused while a saved draft is waiting to be restored or discarded,
+ * so the offered draft is not overwritten before the user decides.
+ */
+export function useFormDraft({
+  formId,
+  fields,
+  values,
+  initialValues,
+  delayMs = 1000,
+  enabled = true
+}: UseFormDraftOptions) {
+  const [pendingDraft, setPendingDraft] = useState<FormDraft | null>(() => (enabled ? readDraft(formId) : null));
+  const timerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  // Debounced save of the current values
+  useEffect(() => {
+    if (!enabled || pendingDraft) return;
+
+    timerRef.current = setTimeout(() => {
+      const persistable = pickPersistable(fields, values);
+      const isUntouched = Object.entries(persistable).every(([name, value]) => isSameValue(initialValues[name], value));
+
+      if (isUntouched) {
+        removeDraft(formId);
+      } else {
+        writeDraft(formId, { savedAt: new Date().toISOString(), values: persistable });
+      }
+    }, delayMs);
+
+    return () => clearTimeout(timerRef.current);
+  }, [enabled, pendingDraft, fields, values, initialValues, formId, delayMs]);
+
+  /**
+   * Returns the form values with the saved draft applied and stops offering it.
+   * Only fields that still exist with a value of the same type are restored.
+   */
+  const restoreDraft = useCallback((current: FormValues): FormValues => {
+    if (!pendingDraft) return current;
+
+    const restored = { ...current };
+    for (const field of fields) {
+      const saved = pendingDraft.values[field.name];
+      if (!field.sensitive && saved !== undefined && typeof saved === typeof current[field.name]) {
+        restored[field.name] = saved;
+      }
+    }
+
+    setPendingDraft(null);
+    return restored;
+  }, [pendingDraft, fields]);
+
+  /**
+   * Deletes the saved draft and stops offering it
+   */
+  const discardDraft = useCallback(() => {
+    clearTimeout(timerRef.current);
+    removeDraft(formId);
+    setPendingDraft(null);
+  }, [formId]);
+
+  return {
+    /** Draft found in storage that the user has not restored or discarded yet */
+    pendingDraft,
+    restoreDraft,
+    discardDraft
+  };
+}
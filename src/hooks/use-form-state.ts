@@ -0,0 +1,220 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { isSameValue, type FieldSchema, type FieldValue, type FormErrors, type FormValues } from '@/lib/form-schema';
+import { validateField, validateFields } from '@/lib/validation';
+import { useAsyncValidation } from './use-async-validation';
+
+/**
+ * When fields are validated while the user fills in the form.
+ * Every mode validates the whole form on submit.
+ *
+ * - `onBlur` - when a changed field loses focus
+ * - `onTouched` - on blur, then on every change once the field has been blurred
+ * - `onSubmit` - only on submit
+ *
+ * In every mode a field that already shows an error is re-checked on change,
+ * so the error clears as soon as it is fixed. Asynchronous rules run whenever
+ * the synchronous ones are re-checked and pass.
+ */
+export type ValidationTiming = 'onBlur' | 'onTouched' | 'onSubmit';
+
+interface UseFormStateOptions {
+  fields: FieldSchema[];
+  initialValues: FormValues;
+  validateOn?: ValidationTiming;
+}
+
+type FieldFlags = Record<string, boolean>;
+
+const markAll = (flags: FieldFlags, names: string[]): FieldFlags =>
+  names.reduce((next, name) => ({ ...next, [name]: true }), flags);
+
+/**
+ * Form values, validation errors and per-field touched/dirty state.
+ *
+ * A field is touched once it has lost focus or been validated on submit, and
+ * dirty while its value differs from its initial value. Errors are only
+ * exposed for touched fields so users are not told off before they have had
+ * a chance to answer.
+ */
+export function useFormState({ fields, initialValues, validateOn = 'onTouched' }: UseFormStateOptions) {
+  const [values, setValues] = useState<FormValues>(initialValues);
+  const [allErrors, setAllErrors] = useState<FormErrors>({});
+  const [touched, setTouched] = useState<FieldFlags>({});
+  const {
+    asyncErrors,
+    pending,
+    schedule: scheduleAsync,
+    settle: settleAsync,
+    cancel: cancelAsync,
+    cancelAll: cancelAllAsync
+  } = useAsyncValidation();
+  const valuesRef = useRef(values);
+  valuesRef.current = values;
+
+  // Field definitions are rebuilt when the locale changes - re-check existing
+  // errors so their messages follow. Errors no rule produces, such as those
+  // returned by the server, are kept.
+  useEffect(() => {
+    setAllErrors(prev => {
+      const next = { ...prev };
+      for (const name of Object.keys(prev)) {
+        const field = fields.find(f => f.name === name);
+        const error = field && validateField(field, valuesRef.current);
+        if (error) next[name] = error;
+      }
+      return next;
+    });
+  }, [fields]);
+
+  const dirty = useMemo<FieldFlags>(
+    () => Object.fromEntries(fields.map(field => [field.name, !isSameValue(values[field.name], initialValues[field.name])])),
+    [fields, values, initialValues]
+  );
+
+  // Synchronous errors take precedence - async checks only run once those pass
+  const errors = useMemo<FormErrors>(
+    () => Object.fromEntries(
+      Object.entries({ ...asyncErrors, ...allErrors }).filter(([name]) => touched[name])
+    ),
+    [asyncErrors, allErrors, touched]
+  );
+
+  /**
+   * Re-validates the named fields against `nextValues`, dropping errors that
+   * no longer apply, and schedules async checks for fields that pass
+   */
+  const revalidate = useCallback((names: string[], nextValues: FormValues) => {
+    if (names.length === 0) return;
+
+    const results = names.map(name => {
+      const field = fields.find(f => f.name === name);
+      return { name, field, error: field ? validateField(field, nextValues) : undefined };
+    });
+
+    setAllErrors(prev => {
+      const next = { ...prev };
+      for (const { name, error } of results) {
+        if (error) {
+          next[name] = error;
+        } else {
+          delete next[name];
+        }
+      }
+      return next;
+    });
+
+    for (const { name, field, error } of results) {
+      if (error) {
+        cancelAsync(name);
+      } else if (field) {
+        scheduleAsync(field, nextValues);
+      }
+    }
+  }, [fields, cancelAsync, scheduleAsync]);
+
+  /**
+   * Updates a field's value and re-validates the fields the timing calls for.
+   *
+   * @param options.alsoRecheck - Other fields affected by the change, e.g. through conditions
+   * @param options.touch - Treat the change as a completed answer, as for selects and
+   *   checkboxes, marking the field touched without waiting for blur
+   * @returns The form values after the change
+   */
+  const setFieldValue = useCallback((
+    name: string,
+    value: FieldValue,
+    { alsoRecheck = [], touch = false }: { alsoRecheck?: string[]; touch?: boolean } = {}
+  ): FormValues => {
+    const nextValues = { ...values, [name]: value };
+    setValues(nextValues);
+    // Any async result for the previous value is stale now
+    cancelAsync(name);
+
+    if (touch) {
+      setTouched(prev => (prev[name] ? prev : { ...prev, [name]: true }));
+    }
+
+    const recheck = [name, ...alsoRecheck].filter(fieldName =>
+      allErrors[fieldName] ||
+      (fieldName === name && touch && validateOn !== 'onSubmit') ||
+      (validateOn === 'onTouched' && touched[fieldName])
+    );
+    revalidate(recheck, nextValues);
+
+    return nextValues;
+  }, [values, allErrors, touched, validateOn, revalidate, cancelAsync]);
+
+  /**
+   * Marks a field as touched when it loses focus, validating it if the timing calls for it.
+   * Tabbing through an untouched, unchanged field does not produce an error.
+   */
+  const handleBlur = useCallback((name: string) => {
+    setTouched(prev => (prev[name] ? prev : { ...prev, [name]: true }));
+
+    if (validateOn !== 'onSubmit' && (dirty[name] || allErrors[name])) {
+      revalidate([name], values);
+    }
+  }, [validateOn, dirty, allErrors, revalidate, values]);
+
+  /**
+   * Validates the given fields (all fields by default), marks them touched
+   * and returns their errors
+   */
+  const validate = useCallback((subset: FieldSchema[] = fields): FormErrors => {
+    const subsetErrors = validateFields(subset, values);
+    const names = subset.map(field => field.name);
+
+    setAllErrors(prev => {
+      const rest = Object.fromEntries(Object.entries(prev).filter(([name]) => !names.includes(name)));
+      return { ...rest, ...subsetErrors };
+    });
+    setTouched(prev => markAll(prev, names));
+
+    return subsetErrors;
+  }, [fields, values]);
+
+  /**
+   * Like validate, but also waits for the fields' async checks to finish.
+   * Async checks only run for fields whose synchronous rules pass.
+   */
+  const validateAsync = useCallback(async (subset: FieldSchema[] = fields): Promise<FormErrors> => {
+    const syncErrors = validate(subset);
+    const asyncResults = await settleAsync(subset.filter(field => !syncErrors[field.name]), values);
+    return { ...asyncResults, ...syncErrors };
+  }, [fields, validate, settleAsync, values]);
+
+  /**
+   * Replaces every error, e.g. with errors returned by the server
+   */
+  const replaceErrors = useCallback((nextErrors: FormErrors) => {
+    setAllErrors(nextErrors);
+    setTouched(prev => markAll(prev, Object.keys(nextErrors)));
+  }, []);
+
+  /**
+   * Replaces the values and clears errors and touched state
+   */
+  const reset = useCallback((nextValues: FormValues = initialValues) => {
+    setValues(nextValues);
+    setAllErrors({});
+    setTouched({});
+    cancelAllAsync();
+  }, [initialValues, cancelAllAsync]);
+
+  return {
+    values,
+    /** Errors of touched fields - the ones that should be displayed */
+    errors,
+    touched,
+    dirty,
+    /** Fields waiting for an async check */
+    pending,
+    setFieldValue,
+    setValues,
+    handleBlur,
+    validate,
+    validateAsync,
+    replaceErrors,
+    reset
+  };
+}
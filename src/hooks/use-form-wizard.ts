@@ -0,0 +1,37 @@
+import { useCallback, useMemo, useState } from 'react';
+import { getSchemaSteps, type FormSchema } from '@/lib/form-schema';
+
+/**
+ * Tracks the active step of a form rendered in wizard mode.
+ * When disabled the whole form is treated as a single step.
+ */
+export function useFormWizard(schema: FormSchema, enabled: boolean) {
+  const steps = useMemo(() => (enabled ? getSchemaSteps(schema) : []), [schema, enabled]);
+  const [stepIndex, setStepIndex] = useState(0);
+
+  const currentStep = enabled ? steps[stepIndex] : undefined;
+
+  const goToStep = useCallback((index: number) => {
+    setStepIndex(Math.max(0, Math.min(index, steps.length - 1)));
+  }, [steps.length]);
+
+  /**
+   * Returns the index of the step that contains the field, or -1
+   */
+  const findStepOfField = useCallback(
+    (name: string) => steps.findIndex(step => step.fields.some(field => field.name === name)),
+    [steps]
+  );
+
+  return {
+    steps,
+    stepIndex,
+    currentStep,
+    isFirstStep: stepIndex === 0,
+    isLastStep: !enabled || stepIndex === steps.length - 1,
+    /** Sections to render - all of them outside wizard mode */
+    visibleSections: currentStep ? currentStep.sections : schema.sections,
+    goToStep,
+    findStepOfField
+  };
+}
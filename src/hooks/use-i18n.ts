@@ -0,0 +1,32 @@
+import { createContext, useContext } from 'react';
+import { defaultTranslate, type LocaleDefinition, type Translate } from '@/lib/i18n';
+import { defaultLocale, locales } from '@/locales';
+
+export interface I18nContextValue {
+  /** Active locale */
+  locale: LocaleDefinition;
+  /** Every locale the user can switch to */
+  locales: LocaleDefinition[];
+  /** Switches the active locale by its code */
+  setLocale: (code: string) => void;
+  /** Translates a message key in the active locale */
+  t: Translate;
+}
+
+/**
+ * Provided by I18nProvider. Without a provider components render in the
+ * default locale and cannot switch.
+ */
+export const I18nContext = createContext<I18nContextValue>({
+  locale: defaultLocale,
+  locales,
+  setLocale: () => {},
+  t: defaultTranslate
+});
+
+/**
+ * Active locale, the translator for it and a way to switch locales
+ */
+export function useI18n(): I18nContextValue {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,66 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import type { ListOption, OptionLoader } from '@/lib/options';
+
+interface UseOptionLoaderOptions {
+  /** Identifies the loader's results in the query cache */
+  cacheKey: string;
+  /** Filter text passed to the loader */
+  query: string;
+  /** Whether to load at all - e.g. only while the listbox is open */
+  enabled: boolean;
+  /** Milliseconds to wait after the last filter change before loading */
+  debounceMs?: number;
+}
+
+/** Loaded options are reused for this long before being fetched again */
+const STALE_TIME_MS = 5 * 60 * 1000;
+
+/**
+ * Loads listbox options page by page through the app's QueryClient, so
+ * results are cached per filter text and shared between fields using the
+ * same cache key. Requires a QueryClientProvider, see App.tsx.
+ */
+export function useOptionLoader<T extends ListOption>(
+  loader: OptionLoader<T> | undefined,
+  { cacheKey, query, enabled, debounceMs = 300 }: UseOptionLoaderOptions
+) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), debounceMs);
+    return () => clearTimeout(timer);
+  }, [query, debounceMs]);
+
+  const result = useInfiniteQuery({
+    queryKey: ['select-options', cacheKey, debouncedQuery],
+    queryFn: ({ pageParam, signal }) => loader({ query: debouncedQuery, page: pageParam, signal }),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, pages) => (lastPage.hasMore ? pages.length : undefined),
+    enabled: enabled && Boolean(loader),
+    staleTime: STALE_TIME_MS
+  });
+
+  const options = useMemo(() => result.data?.pages.flatMap(page => page.options) ?? [], [result.data]);
+  const { hasNextPage, isFetchingNextPage, fetchNextPage, refetch } = result;
+
+  return {
+    options,
+    /** Whether the first page for the current filter is loading */
+    isLoading: result.isLoading,
+    /** Whether the last request failed */
+    isError: result.isError,
+    /** Whether another page can be loaded */
+    hasMore: hasNextPage,
+    /** Whether another page is loading */
+    isLoadingMore: isFetchingNextPage,
+    /** Loads the next page unless one is already loading */
+    loadMore: () => {
+      if (hasNextPage && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    },
+    /** Repeats the failed request */
+    retry: () => (options.length > 0 ? fetchNextPage() : refetch())
+  };
+}
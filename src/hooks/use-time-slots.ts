@@ -0,0 +1,43 @@
+import { useQuery } from '@tanstack/react-query';
+import type { AvailabilityProvider } from '@/lib/availability';
+
+interface UseTimeSlotsOptions {
+  /** Identifies the provider's results in the query cache */
+  cacheKey: string;
+  /** First day to load, as an ISO date in the user's time zone */
+  from: string;
+  /** Number of days to load */
+  days: number;
+  /** IANA time zone the slots are shown in */
+  timeZone: string;
+}
+
+/** Free slots change as others book, so they are fetched again after this long */
+const STALE_TIME_MS = 60 * 1000;
+
+/**
+ * Loads the slots of a range of days through the app's QueryClient, so
+ * paging back to days already seen does not wait for the provider again.
+ * Requires a QueryClientProvider, see App.tsx.
+ */
+export function useTimeSlots(
+  provider: AvailabilityProvider | undefined,
+  { cacheKey, from, days, timeZone }: UseTimeSlotsOptions
+) {
+  const result = useQuery({
+    queryKey: ['time-slots', cacheKey, from, days, timeZone],
+    queryFn: ({ signal }) => provider({ from, days, timeZone, signal }),
+    enabled: Boolean(provider),
+    staleTime: STALE_TIME_MS
+  });
+
+  return {
+    slots: result.data ?? [],
+    /** Whether the slots of these days are loading */
+    isLoading: result.isLoading,
+    /** Whether the last request failed */
+    isError: result.isError,
+    /** Repeats the failed request */
+    retry: () => result.refetch()
+  };
+}
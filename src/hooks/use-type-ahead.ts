@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Collects characters typed in quick succession into a search string, as
+ * listboxes expect for type-to-select. The search starts over after
+ * `resetMs` without typing.
+ */
+export function useTypeAhead(resetMs = 500) {
+  const searchRef = useRef('');
+  const timerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => () => clearTimeout(timerRef.current), []);
+
+  /**
+   * Adds a typed character and returns the search so far
+   */
+  const type = useCallback((char: string) => {
+    clearTimeout(timerRef.current);
+    searchRef.current += char;
+    timerRef.current = setTimeout(() => {
+      searchRef.current = '';
+    }, resetMs);
+    return searchRef.current;
+  }, [resetMs]);
+
+  /**
+   * Returns true while a search is in progress - Space then extends the
+   * search instead of selecting
+   */
+  const isTyping = useCallback(() => searchRef.current !== '', []);
+
+  return { type, isTyping };
+}
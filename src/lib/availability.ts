@@ -0,0 +1,159 @@
+/**
+ * Callback slot availability.
+ *
+ * Time slot fields ask an AvailabilityProvider which slots are free, a few
+ * days at a time, so a form can book against a real scheduling backend or
+ * against the local stub below. Slots are instants in UTC and are shown in
+ * the user's own time zone.
+ */
+import { addDays, addMinutes, startOfDay } from 'date-fns';
+import { parseIsoDate, toIsoDate } from './dates';
+
+/**
+ * A bookable period
+ */
+export interface TimeSlot {
+  /** Start as an ISO instant, e.g. "2024-06-03T14:00:00.000Z" - the field's value when picked */
+  start: string;
+  /** End as an ISO instant */
+  end: string;
+  /** Whether the slot can still be booked - taken slots are listed but cannot be picked */
+  available: boolean;
+}
+
+/**
+ * Loads the slots starting on `days` days from `from`, an ISO date in the
+ * user's time zone. The signal aborts when the result is no longer needed.
+ */
+export type AvailabilityProvider = (request: {
+  from: string;
+  days: number;
+  /** IANA time zone of the user, e.g. "Europe/Madrid" */
+  timeZone: string;
+  signal: AbortSignal;
+}) => Promise<TimeSlot[]>;
+
+/**
+ * IANA time zone of the user's browser
+ */
+export const getUserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Returns true when `loadSlots` lists a slot starting at `start`, an ISO
+ * instant, that can still be booked
+ */
+export const isSlotAvailable = async (
+  loadSlots: AvailabilityProvider,
+  start: string,
+  signal: AbortSignal
+): Promise<boolean> => {
+  const startMs = Date.parse(start);
+  if (Number.isNaN(startMs)) return false;
+
+  const slots = await loadSlots({ from: toIsoDate(new Date(startMs)), days: 1, timeZone: getUserTimeZone(), signal });
+  return slots.some(slot => slot.available && Date.parse(slot.start) === startMs);
+};
+
+/**
+ * Groups slots by the day they start on in the user's time zone, returning
+ * one entry per day from `from` even when a day has no slots
+ */
+export const groupSlotsByDay = (
+  slots: TimeSlot[],
+  from: string,
+  days: number
+): { day: string; slots: TimeSlot[] }[] => {
+  const first = parseIsoDate(from) ?? startOfDay(new Date());
+
+  return Array.from({ length: days }, (_, index) => {
+    const day = toIsoDate(addDays(first, index));
+    return {
+      day,
+      slots: slots
+        .filter(slot => toIsoDate(new Date(slot.start)) === day)
+        .sort((a, b) => a.start.localeCompare(b.start))
+    };
+  });
+};
+
+/**
+ * Creates a provider that fetches slots from `url`, passing `from`, `days`
+ * and `timeZone` as query parameters. The endpoint answers with a JSON array
+ * of TimeSlot.
+ */
+export const createFetchAvailabilityProvider = (
+  url: string,
+  { fetch: fetchImpl = (input, init) => fetch(input, init) }: { fetch?: typeof fetch } = {}
+): AvailabilityProvider =>
+  async ({ from, days, timeZone, signal }) => {
+    const params = new URLSearchParams({ from, days: String(days), timeZone });
+    const response = await fetchImpl(`${url}?${params}`, { headers: { Accept: 'application/json' }, signal });
+    if (!response.ok) {
+      throw new Error(`Availability request failed (HTTP ${response.status})`);
+    }
+    return response.json();
+  };
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+/**
+ * Marks one slot in five as taken, in a repeatable pattern - `index` counts
+ * slot lengths since the epoch
+ */
+const isTaken = (index: number) => (index * 3) % 5 === 1;
+
+/**
+ * Creates a provider that makes up slots locally - for tests and for running
+ * the app without a scheduling backend. Slots run on weekdays between
+ * `openingHours` in UTC, so they land at different local times depending on
+ * the user's time zone, and about one in five is already taken.
+ */
+export const createStubAvailabilityProvider = ({
+  latencyMs = 0,
+  slotMinutes = 30,
+  openingHours = { start: 13, end: 21 }
+}: {
+  latencyMs?: number;
+  slotMinutes?: number;
+  /** UTC hours of the first slot and of the end of the last */
+  openingHours?: { start: number; end: number };
+} = {}): AvailabilityProvider =>
+  ({ from, days, signal }) =>
+    new Promise((resolve, reject) => {
+      if (signal.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+
+        const first = parseIsoDate(from) ?? startOfDay(new Date());
+        const last = addDays(first, days);
+        const now = new Date();
+        const slots: TimeSlot[] = [];
+
+        // Walk the window in steps aligned to the slot length, from just before the first local midnight
+        const stepMs = slotMinutes * 60000;
+        for (let start = new Date(Math.floor(first.getTime() / stepMs) * stepMs); start < last; start = addMinutes(start, slotMinutes)) {
+          const startMinutes = start.getUTCHours() * 60 + start.getUTCMinutes();
+          const isWeekday = start.getUTCDay() !== 0 && start.getUTCDay() !== 6;
+          const isOpen = startMinutes >= openingHours.start * 60 && startMinutes + slotMinutes <= openingHours.end * 60;
+
+          if (start >= first && start > now && isWeekday && isOpen) {
+            slots.push({
+              start: start.toISOString(),
+              end: addMinutes(start, slotMinutes).toISOString(),
+              available: !isTaken(start.getTime() / stepMs)
+            });
+          }
+        }
+
+        resolve(slots);
+      }, latencyMs);
+      signal.addEventListener('abort', onAbort);
+    });
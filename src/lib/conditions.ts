@@ -0,0 +1,100 @@
+/**
+ * Declarative conditions for showing and requiring fields based on the
+ * values of other fields, e.g. "require phone when contactMethod is phone".
+ */
+import type { FieldSchema, FieldValue, FormValues } from './form-schema';
+
+export type FieldCondition =
+  /** Another field has exactly this value */
+  | { field: string; equals: FieldValue }
+  /** Another field has any value except this one */
+  | { field: string; notEquals: FieldValue }
+  /** Another field has one of these values */
+  | { field: string; oneOf: FieldValue[] }
+  /** Every nested condition holds */
+  | { all: FieldCondition[] }
+  /** At least one nested condition holds */
+  | { any: FieldCondition[] };
+
+/**
+ * Evaluates a condition against the current form values
+ */
+export const evaluateCondition = (condition: FieldCondition, values: FormValues): boolean => {
+  if ('all' in condition) {
+    return condition.all.every(nested => evaluateCondition(nested, values));
+  }
+
+  if ('any' in condition) {
+    return condition.any.some(nested => evaluateCondition(nested, values));
+  }
+
+  const value = values[condition.field];
+
+  if ('equals' in condition) {
+    return value === condition.equals;
+  }
+
+  if ('notEquals' in condition) {
+    return value !== condition.notEquals;
+  }
+
+  return condition.oneOf.includes(value);
+};
+
+/**
+ * Returns true when the field should be rendered and validated
+ */
+export const isFieldVisible = (field: FieldSchema, values: FormValues): boolean =>
+  !field.visibleWhen || evaluateCondition(field.visibleWhen, values);
+
+/**
+ * Returns only the values of fields that are currently visible, so hidden
+ * answers are not submitted
+ */
+export const getVisibleValues = (fields: FieldSchema[], values: FormValues): FormValues =>
+  Object.fromEntries(
+    Object.entries(values).filter(([name]) => {
+      const field = fields.find(f => f.name === name);
+      return !field || isFieldVisible(field, values);
+    })
+  );
+
+export interface ConditionChange {
+  field: FieldSchema;
+  change: 'shown' | 'hidden' | 'required' | 'optional';
+}
+
+/**
+ * Lists fields whose visibility or requirement differs between two sets of
+ * values, so the change can be announced to assistive technology
+ */
+export const getConditionChanges = (
+  fields: FieldSchema[],
+  previous: FormValues,
+  next: FormValues
+): ConditionChange[] => {
+  const changes: ConditionChange[] = [];
+
+  for (const field of fields) {
+    if (!field.visibleWhen && !field.requiredWhen) continue;
+
+    const wasVisible = isFieldVisible(field, previous);
+    const isVisible = isFieldVisible(field, next);
+
+    if (wasVisible !== isVisible) {
+      changes.push({ field, change: isVisible ? 'shown' : 'hidden' });
+      continue;
+    }
+
+    if (!field.requiredWhen || !field.rules?.some(rule => rule.type === 'required')) continue;
+
+    const wasRequired = evaluateCondition(field.requiredWhen, previous);
+    const isRequired = evaluateCondition(field.requiredWhen, next);
+
+    if (isVisible && wasRequired !== isRequired) {
+      changes.push({ field, change: isRequired ? 'required' : 'optional' });
+    }
+  }
+
+  return changes;
+};
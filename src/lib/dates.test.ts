@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { enUS, es } from 'date-fns/locale';
+import {
+  formatTypedDate,
+  getDateProblem,
+  isDisabledDay,
+  joinDateRange,
+  joinDateTime,
+  parseIsoDate,
+  parseIsoInstant,
+  parseTypedDate,
+  splitDateRange,
+  splitDateTime,
+  toIsoDate,
+  toUtcInstant
+} from './dates';
+
+describe('parseIsoDate', () => {
+  it('reads dates and local dates with a time', () => {
+    expect(parseIsoDate('2024-05-31')).toEqual(new Date(2024, 4, 31));
+    expect(parseIsoDate('2024-05-31T14:30')).toEqual(new Date(2024, 4, 31, 14, 30));
+  });
+
+  it.each(['2024-02-30', '2024-13-01', '2024-5-31', '2024-05-31T24:00', '2024-05-31T14:3', '31/05/2024', ''])(
+    'rejects %j',
+    value => {
+      expect(parseIsoDate(value)).toBeUndefined();
+    }
+  );
+
+  it('accepts 29 February only in leap years', () => {
+    expect(parseIsoDate('2024-02-29')).toBeDefined();
+    expect(parseIsoDate('2023-02-29')).toBeUndefined();
+  });
+});
+
+describe('parseIsoInstant', () => {
+  it('reads instants with an offset', () => {
+    expect(parseIsoInstant('2024-06-03T14:00:00.000Z')?.getTime()).toBe(Date.UTC(2024, 5, 3, 14));
+    expect(parseIsoInstant('2024-06-03T16:00+02:00')?.getTime()).toBe(Date.UTC(2024, 5, 3, 14));
+  });
+
+  it('rejects local times, which do not name an instant', () => {
+    expect(parseIsoInstant('2024-06-03T14:00')).toBeUndefined();
+  });
+});
+
+describe('value shapes', () => {
+  it('formats days as ISO dates', () => {
+    expect(toIsoDate(new Date(2024, 0, 5, 23, 59))).toBe('2024-01-05');
+  });
+
+  it('splits and joins half-filled dates with a time', () => {
+    expect(splitDateTime('2024-05-31T')).toEqual({ date: '2024-05-31', time: '' });
+    expect(splitDateTime('T14:30')).toEqual({ date: '', time: '14:30' });
+    expect(splitDateTime('2024-05-31')).toBeUndefined();
+    expect(joinDateTime('2024-05-31', '')).toBe('2024-05-31T');
+    expect(joinDateTime('', '')).toBe('');
+  });
+
+  it('splits and joins half-filled ranges', () => {
+    expect(splitDateRange('2024-05-01/')).toEqual({ start: '2024-05-01', end: '' });
+    expect(splitDateRange('2024-05-01')).toBeUndefined();
+    expect(joinDateRange('', '2024-05-31')).toBe('/2024-05-31');
+    expect(joinDateRange('', '')).toBe('');
+  });
+});
+
+describe('toUtcInstant', () => {
+  it('converts a complete local date and time to a UTC instant', () => {
+    expect(toUtcInstant('2024-05-31T14:30')).toBe(new Date(2024, 4, 31, 14, 30).toISOString());
+  });
+
+  it('leaves incomplete and other values unchanged', () => {
+    expect(toUtcInstant('2024-05-31T')).toBe('2024-05-31T');
+    expect(toUtcInstant('2024-05-31')).toBe('2024-05-31');
+    expect(toUtcInstant('31/05/2024 14:30')).toBe('31/05/2024 14:30');
+  });
+});
+
+describe('typed dates', () => {
+  it('reads the short format of the locale', () => {
+    expect(parseTypedDate('05/06/2024', enUS)).toEqual(new Date(2024, 4, 6));
+    expect(parseTypedDate('05/06/2024', es)).toEqual(new Date(2024, 5, 5));
+  });
+
+  it('reads ISO dates in every locale', () => {
+    expect(parseTypedDate(' 2024-06-05 ', es)).toEqual(new Date(2024, 5, 5));
+  });
+
+  it('rejects two-digit years and text that is not a date', () => {
+    expect(parseTypedDate('05/06/24', enUS)).toBeUndefined();
+    expect(parseTypedDate('next tuesday', enUS)).toBeUndefined();
+    expect(parseTypedDate('   ', enUS)).toBeUndefined();
+  });
+
+  it('writes dates back the way they are typed', () => {
+    expect(formatTypedDate(new Date(2024, 5, 5), enUS)).toBe('06/05/2024');
+    expect(formatTypedDate(new Date(2024, 5, 5), es)).toBe('05/06/2024');
+  });
+});
+
+describe('isDisabledDay', () => {
+  it('matches days of the week and single dates', () => {
+    const disabledDays = { daysOfWeek: [0, 6], dates: ['2024-12-25'] };
+
+    expect(isDisabledDay(new Date(2024, 5, 1), disabledDays)).toBe(true);
+    expect(isDisabledDay(new Date(2024, 11, 25), disabledDays)).toBe(true);
+    expect(isDisabledDay(new Date(2024, 11, 24), disabledDays)).toBe(false);
+    expect(isDisabledDay(new Date(2024, 11, 24))).toBe(false);
+  });
+});
+
+describe('getDateProblem', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 4, 15, 10));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts valid values of every shape', () => {
+    expect(getDateProblem('2024-05-31')).toBeUndefined();
+    expect(getDateProblem('2024-05-31T14:30')).toBeUndefined();
+    expect(getDateProblem('2024-05-01/2024-05-31')).toBeUndefined();
+    expect(getDateProblem('2024-05-31/2024-05-31')).toBeUndefined();
+  });
+
+  it('reports text that is not a date as invalid', () => {
+    expect(getDateProblem('31/05/2024')).toEqual({ problem: 'invalid' });
+    expect(getDateProblem('2024-02-30')).toEqual({ problem: 'invalid' });
+    expect(getDateProblem('2024-05-31T25:00')).toEqual({ problem: 'invalid' });
+    expect(getDateProblem('2024-05-01/2024-02-30')).toEqual({ problem: 'invalid' });
+  });
+
+  it('reports a date without a time, or a time without a date, as incomplete', () => {
+    expect(getDateProblem('2024-05-31T')).toEqual({ problem: 'incompleteTime' });
+    expect(getDateProblem('T14:30')).toEqual({ problem: 'incompleteTime' });
+  });
+
+  it('reports a range with one end missing as incomplete', () => {
+    expect(getDateProblem('2024-05-01/')).toEqual({ problem: 'incompleteRange' });
+    expect(getDateProblem('/2024-05-31')).toEqual({ problem: 'incompleteRange' });
+  });
+
+  it('reports a range that ends before it starts', () => {
+    expect(getDateProblem('2024-05-31/2024-05-01')).toEqual({ problem: 'order' });
+  });
+
+  it('checks days against min and max, resolving "today"', () => {
+    expect(getDateProblem('2024-05-14', { min: 'today' })).toEqual({ problem: 'min', date: '2024-05-15' });
+    expect(getDateProblem('2024-05-15T08:00', { min: 'today' })).toBeUndefined();
+    expect(getDateProblem('2024-05-16', { max: 'today' })).toEqual({ problem: 'max', date: '2024-05-15' });
+    expect(getDateProblem('2024-06-01', { max: '2024-05-31' })).toEqual({ problem: 'max', date: '2024-05-31' });
+  });
+
+  it('checks the ends of a range, not the days between them', () => {
+    const constraints = { disabledDays: { daysOfWeek: [0, 6] } };
+
+    expect(getDateProblem('2024-05-17/2024-05-20', constraints)).toBeUndefined();
+    expect(getDateProblem('2024-05-18/2024-05-20', constraints)).toEqual({ problem: 'disabled', date: '2024-05-18' });
+    expect(getDateProblem('2024-05-01/2024-05-20', { min: 'today' })).toEqual({ problem: 'min', date: '2024-05-15' });
+  });
+});
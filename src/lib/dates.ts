@@ -0,0 +1,190 @@
+/**
+ * Parsing, formatting and constraint checks for date fields.
+ *
+ * Date fields hold ISO 8601 text so values read the same in drafts, payloads
+ * and every locale: "2024-05-31" for a date, "2024-05-31T14:30" for a date
+ * and time in the user's local time, and "2024-05-01/2024-05-31" for a range.
+ * Half-filled values keep their shape ("2024-05-31T", "2024-05-01/"), and
+ * text that could not be read as a date is held as typed, so validation can
+ * say what is missing or wrong. Dates and times are submitted as UTC instants
+ * so the server knows which moment the user meant.
+ */
+import { format, isValid, parse, startOfDay } from 'date-fns';
+import type { Locale } from 'date-fns';
+
+/**
+ * Days that cannot be chosen, on top of those outside `min` and `max`
+ */
+export interface DisabledDays {
+  /** Days of the week, 0 for Sunday to 6 for Saturday */
+  daysOfWeek?: number[];
+  /** Single days as ISO dates, e.g. public holidays */
+  dates?: string[];
+}
+
+/**
+ * Limits of a date field - the calendar disables the same days validation rejects
+ */
+export interface DateConstraints {
+  /** Earliest day allowed, as an ISO date or "today" */
+  min?: string;
+  /** Latest day allowed, as an ISO date or "today" */
+  max?: string;
+  disabledDays?: DisabledDays;
+}
+
+/**
+ * Reason a date field value is rejected
+ */
+export type DateProblem = 'invalid' | 'incompleteTime' | 'incompleteRange' | 'min' | 'max' | 'disabled' | 'order';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATE_TIME = /^(\d{4}-\d{2}-\d{2})?T(\d{2}:\d{2})?$/;
+const ISO_DATE_RANGE = /^(\d{4}-\d{2}-\d{2})?\/(\d{4}-\d{2}-\d{2})?$/;
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+const ISO_INSTANT = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Formats a day as an ISO date, e.g. "2024-05-31"
+ */
+export const toIsoDate = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+/**
+ * Reads an ISO date ("2024-05-31") or local date and time ("2024-05-31T14:30"),
+ * or returns undefined when the text is neither or names a day that does not exist
+ */
+export const parseIsoDate = (value: string): Date | undefined => {
+  const [day, time] = value.split('T');
+  if (!ISO_DATE.test(day) || (time !== undefined && !TIME.test(time))) return undefined;
+
+  const date = parse(value, time === undefined ? 'yyyy-MM-dd' : "yyyy-MM-dd'T'HH:mm", new Date());
+  return isValid(date) ? date : undefined;
+};
+
+/**
+ * Reads an ISO instant with a UTC offset, e.g. "2024-05-31T14:30:00.000Z",
+ * or returns undefined when the text is not one
+ */
+export const parseIsoInstant = (value: string): Date | undefined => {
+  if (!ISO_INSTANT.test(value)) return undefined;
+
+  const date = new Date(value);
+  return isValid(date) ? date : undefined;
+};
+
+/**
+ * Splits a date and time value into its parts, or returns undefined when the
+ * value does not have that shape
+ */
+export const splitDateTime = (value: string): { date: string; time: string } | undefined => {
+  const match = ISO_DATE_TIME.exec(value);
+  return match ? { date: match[1] ?? '', time: match[2] ?? '' } : undefined;
+};
+
+/**
+ * Joins the parts of a date and time value - empty when both are empty
+ */
+export const joinDateTime = (date: string, time: string): string => (date || time ? `${date}T${time}` : '');
+
+/**
+ * Converts a local date and time value to an ISO instant in UTC, e.g.
+ * "2024-05-31T14:30" in Madrid to "2024-05-31T12:30:00.000Z". Values that are
+ * not a complete date and time are returned unchanged.
+ */
+export const toUtcInstant = (value: string): string => {
+  const dateTime = splitDateTime(value);
+  const date = dateTime?.date && dateTime.time ? parseIsoDate(value) : undefined;
+  return date ? date.toISOString() : value;
+};
+
+/**
+ * Splits a date range value into its start and end, or returns undefined
+ * when the value does not have that shape
+ */
+export const splitDateRange = (value: string): { start: string; end: string } | undefined => {
+  const match = ISO_DATE_RANGE.exec(value);
+  return match ? { start: match[1] ?? '', end: match[2] ?? '' } : undefined;
+};
+
+/**
+ * Joins the ends of a date range value - empty when both are empty
+ */
+export const joinDateRange = (start: string, end: string): string => (start || end ? `${start}/${end}` : '');
+
+/**
+ * Reads a date typed in the locale's short format, e.g. "5/31/2024" in US
+ * English or "31/5/2024" in Spanish. ISO dates are understood in every locale.
+ */
+export const parseTypedDate = (text: string, locale?: Locale): Date | undefined => {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+
+  for (const pattern of ['P', 'yyyy-MM-dd']) {
+    const date = parse(trimmed, pattern, new Date(), { locale });
+    // Two-digit years would be read literally, as the first century
+    if (isValid(date) && date.getFullYear() >= 1000) return date;
+  }
+
+  return undefined;
+};
+
+/**
+ * Formats a day in the locale's short format, as it is typed
+ */
+export const formatTypedDate = (date: Date, locale?: Locale): string => format(date, 'P', { locale });
+
+/**
+ * Resolves a `min` or `max` constraint to the start of that day
+ */
+export const resolveDateLimit = (limit: string | undefined): Date | undefined =>
+  limit === 'today' ? startOfDay(new Date()) : limit ? parseIsoDate(limit) : undefined;
+
+/**
+ * Returns true when the day is one of the disabled days
+ */
+export const isDisabledDay = (date: Date, disabledDays: DisabledDays = {}): boolean =>
+  (disabledDays.daysOfWeek?.includes(date.getDay()) ?? false) ||
+  (disabledDays.dates?.includes(toIsoDate(date)) ?? false);
+
+const getDayProblem = (
+  date: Date,
+  { min, max, disabledDays }: DateConstraints
+): { problem: DateProblem; date?: string } | undefined => {
+  const day = startOfDay(date);
+  const minDate = resolveDateLimit(min);
+  const maxDate = resolveDateLimit(max);
+
+  if (minDate && day < minDate) return { problem: 'min', date: toIsoDate(minDate) };
+  if (maxDate && day > maxDate) return { problem: 'max', date: toIsoDate(maxDate) };
+  if (isDisabledDay(day, disabledDays)) return { problem: 'disabled', date: toIsoDate(day) };
+  return undefined;
+};
+
+/**
+ * Returns what is wrong with a date, date and time, or date range value, and
+ * the ISO date the message is about where there is one, or undefined when the
+ * value is valid. Only the ends of a range are checked against disabled days.
+ */
+export const getDateProblem = (
+  value: string,
+  constraints: DateConstraints = {}
+): { problem: DateProblem; date?: string } | undefined => {
+  const range = splitDateRange(value);
+  if (range) {
+    if (!range.start || !range.end) return { problem: 'incompleteRange' };
+
+    const start = parseIsoDate(range.start);
+    const end = parseIsoDate(range.end);
+    if (!start || !end) return { problem: 'invalid' };
+
+    return getDayProblem(start, constraints)
+      ?? getDayProblem(end, constraints)
+      ?? (end < start ? { problem: 'order' } : undefined);
+  }
+
+  const dateTime = splitDateTime(value);
+  if (dateTime && (!dateTime.date || !dateTime.time)) return { problem: 'incompleteTime' };
+
+  const date = parseIsoDate(value);
+  return date ? getDayProblem(date, constraints) : { problem: 'invalid' };
+};
@@ -0,0 +1,16 @@
+import {
+  createFetchAvailabilityProvider,
+  createStubAvailabilityProvider,
+  type AvailabilityProvider
+} from './availability';
+
+const availabilityUrl = import.meta.env.VITE_AVAILABILITY_URL;
+
+/**
+ * Provider used by the bundled forms' time slot fields.
+ * Fetches from VITE_AVAILABILITY_URL when it is set, otherwise makes up
+ * slots locally so the app works without a scheduling backend.
+ */
+export const defaultAvailabilityProvider: AvailabilityProvider = availabilityUrl
+  ? createFetchAvailabilityProvider(availabilityUrl)
+  : createStubAvailabilityProvider({ latencyMs: 600 });
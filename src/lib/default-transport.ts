@@ -0,0 +1,28 @@
+import { createMockServer } from './mock-server';
+import { SubmissionError, createFetchTransport, type SubmissionTransport } from './submission';
+
+const submissionUrl = import.meta.env.VITE_SUBMISSION_URL;
+const useMockServer = import.meta.env.DEV || import.meta.env.VITE_USE_MOCK_SERVER === 'true';
+
+const createMockTransport = (): SubmissionTransport => {
+  const server = createMockServer({ latencyMs: 2000 });
+  return createFetchTransport({ url: '/api/submissions', fetch: server.fetch, upload: server.upload });
+};
+
+/**
+ * Rejects every submission, for builds with nowhere to send them - better
+ * than reporting success for data that is never stored
+ */
+const unconfiguredTransport: SubmissionTransport = {
+  submit: () => Promise.reject(new SubmissionError('configuration', 'submission.error.configuration'))
+};
+
+/**
+ * Transport used when a form is not given one explicitly.
+ * Posts to VITE_SUBMISSION_URL when it is set. Otherwise development builds,
+ * and builds with VITE_USE_MOCK_SERVER=true, use an in-process mock server
+ * so the app works without a backend; other builds fail every submission.
+ */
+export const defaultTransport: SubmissionTransport = submissionUrl
+  ? createFetchTransport({ url: submissionUrl })
+  : useMockServer ? createMockTransport() : unconfiguredTransport;
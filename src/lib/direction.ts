@@ -0,0 +1,40 @@
+/**
+ * Reading direction helpers for right-to-left locales.
+ *
+ * Layout follows the document direction through logical Tailwind utilities
+ * (`ms-*`, `me-*`, `text-start`) and the `rtl:` variant. Keyboard handlers
+ * use the helpers below so that arrow keys move with the reading direction.
+ */
+
+/**
+ * Reading direction of a locale
+ */
+export type Direction = 'ltr' | 'rtl';
+
+interface ArrowKeyOptions {
+  /** Whether Left/Right move between items */
+  horizontal?: boolean;
+  /** Whether Up/Down move between items */
+  vertical?: boolean;
+}
+
+/**
+ * Returns how many items an arrow key moves by in reading order: 1 for the
+ * next item, -1 for the previous one and 0 for keys that do not move.
+ * Right is "next" in left-to-right text and "previous" in right-to-left text.
+ */
+export const getArrowKeyDelta = (
+  key: string,
+  dir: Direction,
+  { horizontal = true, vertical = true }: ArrowKeyOptions = {}
+): number => {
+  if (vertical && key === 'ArrowDown') return 1;
+  if (vertical && key === 'ArrowUp') return -1;
+
+  if (horizontal && (key === 'ArrowRight' || key === 'ArrowLeft')) {
+    const forwardKey = dir === 'rtl' ? 'ArrowLeft' : 'ArrowRight';
+    return key === forwardKey ? 1 : -1;
+  }
+
+  return 0;
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { getEmailProblem, isDisposableEmail, suggestEmail } from './email';
+
+describe('getEmailProblem', () => {
+  it.each([
+    'jane@example.com',
+    'jane.doe+contact@mail.example.co.uk',
+    "o'brien@example.ie",
+    '  padded@example.com  ',
+    'name@xn--bcher-kva.example'
+  ])('accepts %s', address => {
+    expect(getEmailProblem(address)).toBeUndefined();
+  });
+
+  it.each([
+    ['jane.example.com', 'missingAt'],
+    ['', 'missingAt'],
+    ['@example.com', 'localPart'],
+    ['.jane@example.com', 'localPart'],
+    ['jane.@example.com', 'localPart'],
+    ['ja..ne@example.com', 'localPart'],
+    ['"jane doe"@example.com', 'localPart'],
+    [`${'a'.repeat(65)}@example.com`, 'localPart'],
+    ['jane@', 'domain'],
+    ['jane@localhost', 'domain'],
+    ['jane@-example.com', 'domain'],
+    ['jane@example..com', 'domain'],
+    ['jane@[192.168.0.1]', 'domain'],
+    [`jane@${'a'.repeat(64)}.com`, 'domain'],
+    ['jane@example.c', 'topLevelDomain'],
+    ['jane@example.123', 'topLevelDomain'],
+    [`jane@${Array(5).fill('a'.repeat(60)).join('.')}.com`, 'tooLong']
+  ])('reports %s as %s', (address, problem) => {
+    expect(getEmailProblem(address)).toBe(problem);
+  });
+
+  it('splits at the last @', () => {
+    expect(getEmailProblem('jane@home@example.com')).toBe('localPart');
+  });
+});
+
+describe('isDisposableEmail', () => {
+  it('matches blocked domains and their subdomains, ignoring case', () => {
+    expect(isDisposableEmail('someone@Mailinator.com')).toBe(true);
+    expect(isDisposableEmail('someone@inbox.yopmail.com')).toBe(true);
+  });
+
+  it('does not match domains that only end in the same letters', () => {
+    expect(isDisposableEmail('someone@notmailinator.com')).toBe(false);
+    expect(isDisposableEmail('no-at-sign')).toBe(false);
+  });
+});
+
+describe('suggestEmail', () => {
+  it('suggests the closest common domain', () => {
+    expect(suggestEmail('jane@gmial.com')).toBe('jane@gmail.com');
+    expect(suggestEmail('jane@hotmial.con')).toBe('jane@hotmail.com');
+  });
+
+  it('allows only one typo in short domains', () => {
+    expect(suggestEmail('jane@acme.com')).toBeUndefined();
+  });
+
+  it('does not suggest for known domains or incomplete addresses', () => {
+    expect(suggestEmail('jane@gmail.com')).toBeUndefined();
+    expect(suggestEmail('jane@')).toBeUndefined();
+    expect(suggestEmail('@gmial.com')).toBeUndefined();
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Email address syntax checks, disposable-domain detection and typo suggestions.
+ *
+ * Syntax checks follow RFC 5321/5322 for the dot-atom form that real mail
+ * providers use: quoted local parts and IP address literals are rejected,
+ * and the domain needs an alphabetic top-level domain of two or more letters.
+ */
+
+/**
+ * Why an email address is not valid
+ */
+export type EmailProblem = 'missingAt' | 'localPart' | 'domain' | 'topLevelDomain' | 'tooLong';
+
+const MAX_LENGTH = 254;
+const MAX_LOCAL_LENGTH = 64;
+const MAX_LABEL_LENGTH = 63;
+const LOCAL_ATOM = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+$/;
+const DOMAIN_LABEL = /^[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?$/;
+const TOP_LEVEL_DOMAIN = /^[A-Za-z]{2,}$/;
+
+/**
+ * Domains of well-known throwaway inbox services
+ */
+export const disposableEmailDomains: string[] = [
+  '10minutemail.com',
+  'dispostable.com',
+  'getnada.com',
+  'guerrillamail.com',
+  'mailinator.com',
+  'maildrop.cc',
+  'sharklasers.com',
+  'temp-mail.org',
+  'tempmail.com',
+  'throwawaymail.com',
+  'trashmail.com',
+  'yopmail.com'
+];
+
+/**
+ * Domains suggested when an address is one or two typos away from them
+ */
+export const commonEmailDomains: string[] = [
+  'gmail.com',
+  'googlemail.com',
+  'yahoo.com',
+  'yahoo.co.uk',
+  'hotmail.com',
+  'hotmail.co.uk',
+  'outlook.com',
+  'live.com',
+  'msn.com',
+  'icloud.com',
+  'me.com',
+  'aol.com',
+  'proton.me',
+  'protonmail.com',
+  'gmx.com',
+  'mail.com'
+];
+
+const splitAddress = (value: string): { local: string; domain: string } | undefined => {
+  const at = value.lastIndexOf('@');
+  return at < 0 ? undefined : { local: value.slice(0, at), domain: value.slice(at + 1) };
+};
+
+/**
+ * Returns why an email address is not valid, or undefined when it is
+ */
+export const getEmailProblem = (value: string): EmailProblem | undefined => {
+  const address = value.trim();
+  const parts = splitAddress(address);
+  if (!parts) return 'missingAt';
+  if (address.length > MAX_LENGTH) return 'tooLong';
+
+  const { local, domain } = parts;
+  if (
+    !local ||
+    local.length > MAX_LOCAL_LENGTH ||
+    !local.split('.').every(atom => LOCAL_ATOM.test(atom))
+  ) {
+    return 'localPart';
+  }
+
+  const labels = domain.split('.');
+  if (labels.length < 2 || !labels.every(label => label.length <= MAX_LABEL_LENGTH && DOMAIN_LABEL.test(label))) {
+    return 'domain';
+  }
+
+  return TOP_LEVEL_DOMAIN.test(labels[labels.length - 1]) ? undefined : 'topLevelDomain';
+};
+
+/**
+ * Returns true when the address belongs to one of `domains` or a subdomain of one
+ */
+export const isDisposableEmail = (value: string, domains: string[] = disposableEmailDomains): boolean => {
+  const domain = splitAddress(value.trim())?.domain.toLowerCase();
+  return Boolean(domain) && domains.some(blocked => domain === blocked || domain.endsWith(`.${blocked}`));
+};
+
+/**
+ * Optimal string alignment distance - like Levenshtein distance, but a swap
+ * of two neighbouring characters ("gmial") counts as a single typo
+ */
+const typoDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+};
+
+/**
+ * Suggests a correction for a likely typo in the domain, e.g.
+ * "jane@gmial.con" gives "jane@gmail.com". Returns undefined when the domain
+ * is a known one or nothing is close enough.
+ */
+export const suggestEmail = (value: string, domains: string[] = commonEmailDomains): string | undefined => {
+  const parts = splitAddress(value.trim());
+  if (!parts || !parts.local || !parts.domain) return undefined;
+
+  const domain = parts.domain.toLowerCase();
+  if (domains.includes(domain)) return undefined;
+
+  let best: { domain: string; distance: number } | undefined;
+
+  for (const candidate of domains) {
+    // Two typos turn short domains into different, real ones ("acme.com" into "me.com")
+    const maxDistance = Math.min(domain.length, candidate.length) >= 9 ? 2 : 1;
+    const distance = typoDistance(domain, candidate);
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { domain: candidate, distance };
+    }
+  }
+
+  return best && `${parts.local}@${best.domain}`;
+};
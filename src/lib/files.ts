@@ -0,0 +1,132 @@
+/**
+ * File attachment checks and upload progress helpers.
+ *
+ * Attachment fields hold the chosen File objects. Files are checked one by
+ * one as they are added, so a file that is too big or of the wrong type is
+ * turned away with its own message instead of failing the whole field.
+ */
+
+/**
+ * Limits of an attachment field
+ */
+export interface FileConstraints {
+  /** MIME types ("application/pdf"), wildcards ("image/*") or extensions (".pdf") - any file when omitted */
+  accept?: string[];
+  /** Largest accepted file in bytes */
+  maxFileSizeBytes?: number;
+  /** Most files the field holds */
+  maxFiles?: number;
+}
+
+/**
+ * Reason a file was turned away
+ */
+export type FileProblem = 'type' | 'size' | 'count' | 'duplicate';
+
+/**
+ * Progress of a request body being sent
+ */
+export interface UploadProgress {
+  /** Bytes sent so far */
+  loaded: number;
+  /** Size of the whole body in bytes */
+  total: number;
+}
+
+/**
+ * Returns true when the file matches one of the accepted types, following
+ * the rules of the input element's `accept` attribute
+ */
+export const isAcceptedFileType = (file: File, accept: string[] = []): boolean => {
+  if (accept.length === 0) return true;
+
+  const name = file.name.toLowerCase();
+  const type = file.type.toLowerCase();
+
+  return accept.some(pattern => {
+    const expected = pattern.trim().toLowerCase();
+    if (expected.startsWith('.')) return name.endsWith(expected);
+    if (expected.endsWith('/*')) return type.startsWith(expected.slice(0, -1));
+    return type === expected;
+  });
+};
+
+/**
+ * Returns true when both refer to the same file on disk, as far as can be told
+ */
+const isSameFile = (a: File, b: File) =>
+  a.name === b.name && a.size === b.size && a.lastModified === b.lastModified;
+
+/**
+ * Splits newly chosen files into those the field accepts and those it turns
+ * away, checking each against the constraints and the files already attached
+ */
+export const checkFiles = (
+  added: File[],
+  current: File[],
+  { accept, maxFileSizeBytes, maxFiles }: FileConstraints
+): { accepted: File[]; rejected: { file: File; problem: FileProblem }[] } => {
+  const accepted: File[] = [];
+  const rejected: { file: File; problem: FileProblem }[] = [];
+
+  for (const file of added) {
+    let problem: FileProblem | undefined;
+
+    if ([...current, ...accepted].some(attached => isSameFile(attached, file))) {
+      problem = 'duplicate';
+    } else if (!isAcceptedFileType(file, accept)) {
+      problem = 'type';
+    } else if (maxFileSizeBytes !== undefined && file.size > maxFileSizeBytes) {
+      problem = 'size';
+    } else if (maxFiles !== undefined && current.length + accepted.length >= maxFiles) {
+      problem = 'count';
+    }
+
+    if (problem) {
+      rejected.push({ file, problem });
+    } else {
+      accepted.push(file);
+    }
+  }
+
+  return { accepted, rejected };
+};
+
+const fileSizeUnits = ['byte', 'kilobyte', 'megabyte', 'gigabyte'] as const;
+
+/**
+ * Formats a size in bytes for display, e.g. "2.4 MB" in English
+ */
+export const formatFileSize = (bytes: number, locale: string): string => {
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < fileSizeUnits.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+
+  return new Intl.NumberFormat(locale, {
+    style: 'unit',
+    unit: fileSizeUnits[unit],
+    unitDisplay: 'short',
+    maximumFractionDigits: unit === 0 ? 0 : 1
+  }).format(size);
+};
+
+/**
+ * Estimates how far each file has been sent, as a percentage, from the
+ * progress of a multipart body that holds the files in this order. Bytes of
+ * the other parts are spread evenly, so the estimate is close for large files.
+ */
+export const getFileUploadProgress = (files: File[], { loaded, total }: UploadProgress): number[] => {
+  const fileBytes = files.reduce((sum, file) => sum + file.size, 0);
+  const sentFileBytes = total > 0 ? (loaded / total) * fileBytes : 0;
+  let start = 0;
+
+  return files.map(file => {
+    const sent = Math.min(Math.max(sentFileBytes - start, 0), file.size);
+    start += file.size;
+    if (file.size === 0) return loaded >= total ? 100 : 0;
+    return Math.round((sent / file.size) * 100);
+  });
+};
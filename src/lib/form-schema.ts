@@ -0,0 +1,517 @@
+/**
+ * Typed form schema definitions.
+ *
+ * A schema describes a form's sections and fields declaratively so that
+ * AccessibleForm can render it without bespoke section components.
+ */
+import type { ValidationRule } from './validation';
+import type { FieldCondition } from './conditions';
+import { defaultTranslate, type Translate } from './i18n';
+import { formatPhoneNumber, toE164 } from './phone';
+import type { OptionLoader } from './options';
+import type { FileConstraints } from './files';
+import { getDateProblem, splitDateRange, toUtcInstant } from './dates';
+import type { AvailabilityProvider } from './availability';
+import type { SlaPolicy } from './sla';
+
+/**
+ * Value held by a single field in the form state - multi-selects hold the
+ * chosen option values in the order they were chosen, and attachment fields
+ * the attached files
+ */
+export type FieldValue = string | boolean | string[] | File[];
+
+/**
+ * Current values of every field, keyed by field name
+ */
+export type FormValues = Record<string, FieldValue>;
+
+/**
+ * Validation messages keyed by field name
+ */
+export interface FormErrors {
+  [key: string]: string;
+}
+
+/**
+ * Option for select and radio fields
+ */
+export interface FieldOption {
+  /** Unique value for the option */
+  value: string;
+  /** Display label for the option */
+  label: string;
+  /** Longer description shown under the label (radio cards only) */
+  description?: string;
+  /** Heading the option is listed under (selects only) - options of a group should be adjacent */
+  group?: string;
+  /** Whether the option is shown but cannot be selected (selects only) */
+  disabled?: boolean;
+}
+
+/**
+ * Properties shared by every field type
+ */
+interface BaseFieldSchema {
+  /** Field name - also used as the element id */
+  name: string;
+  /** Display label for the field */
+  label: string;
+  /** Additional help text to guide the user */
+  helpText?: string;
+  /** Column span within the section grid on medium screens and up */
+  width?: 'half' | 'full';
+  /** Validation rules, checked in order - see lib/validation */
+  rules?: ValidationRule[];
+  /** Only show (and validate) the field while this condition holds */
+  visibleWhen?: FieldCondition;
+  /** Only apply the field's required rule while this condition holds */
+  requiredWhen?: FieldCondition;
+  /** Never written to saved drafts, e.g. for health or financial details */
+  sensitive?: boolean;
+}
+
+/**
+ * Single-line or multi-line text input
+ */
+export interface TextFieldSchema extends BaseFieldSchema {
+  type: 'text' | 'email' | 'tel' | 'textarea';
+  /** HTML autocomplete attribute value */
+  autoComplete?: string;
+  /**
+   * Let the text run past the maxLength rule while typing, with the counter
+   * warning instead of input stopping at the limit. The rule still fails
+   * when the field is validated.
+   */
+  softLimit?: boolean;
+  defaultValue?: string;
+}
+
+/**
+ * Phone number with a country selector, formatted as the user types.
+ * The value keeps the calling code, e.g. "+44 07400 123456", and is
+ * submitted in E.164 form.
+ */
+export interface PhoneFieldSchema extends BaseFieldSchema {
+  type: 'phone';
+  /** HTML autocomplete attribute value */
+  autoComplete?: string;
+  /** Region code of the country selected for an empty field, e.g. "GB" - defaults to the browser's region */
+  defaultCountry?: string;
+  /** Region codes offered in the country selector - defaults to every supported country */
+  countries?: string[];
+  defaultValue?: string;
+}
+
+/**
+ * Dropdown rendered with CustomSelect
+ */
+export interface SelectFieldSchema extends BaseFieldSchema {
+  type: 'select';
+  options: FieldOption[];
+  /** Placeholder text when no option is selected */
+  placeholder?: string;
+  /** Show a filter input above the options - for long lists such as countries */
+  filterable?: boolean;
+  /** Loads options from a remote source page by page, instead of listing them in `options` */
+  loadOptions?: OptionLoader;
+  /** Show the field greyed out - it cannot be focused or changed */
+  disabled?: boolean;
+  /** Show the answer without allowing it to be changed */
+  readOnly?: boolean;
+  defaultValue?: string;
+}
+
+/**
+ * Dropdown rendered with CustomSelect that takes several answers
+ */
+export interface MultiSelectFieldSchema extends BaseFieldSchema {
+  type: 'multiselect';
+  options: FieldOption[];
+  /** Placeholder text when no option is selected */
+  placeholder?: string;
+  /** Show a filter input above the options - for long lists such as countries */
+  filterable?: boolean;
+  /** Loads options from a remote source page by page, instead of listing them in `options` */
+  loadOptions?: OptionLoader;
+  /** Show the field greyed out - it cannot be focused or changed */
+  disabled?: boolean;
+  /** Show the answer without allowing it to be changed */
+  readOnly?: boolean;
+  defaultValue?: string[];
+}
+
+/**
+ * Extra "Other" radio card that reveals a text field for answers the
+ * options do not cover
+ */
+export interface RadioOtherOption {
+  /** Label of the card - defaults to "Other (please specify)" */
+  label?: string;
+  /** Longer description shown under the label */
+  description?: string;
+  /** Label of the text field - defaults to "Please specify" */
+  inputLabel?: string;
+  /** Validation rules for the text, checked while the option is chosen */
+  rules?: ValidationRule[];
+}
+
+/**
+ * Radio cards rendered with RadioCardGroup
+ */
+export interface RadioFieldSchema extends BaseFieldSchema {
+  type: 'radio';
+  options: FieldOption[];
+  /**
+   * Adds an "Other" card. Choosing it sets the value to OTHER_OPTION_VALUE and
+   * the text is held in a field named by getOtherFieldName.
+   */
+  other?: RadioOtherOption;
+  defaultValue?: string;
+}
+
+/**
+ * File attachments, chosen with a picker or dropped onto the field. Files
+ * that break the limits are turned away as they are added. Forms with
+ * attachments are submitted as multipart - see lib/submission.
+ */
+export interface FileFieldSchema extends BaseFieldSchema, FileConstraints {
+  type: 'file';
+}
+
+/**
+ * Date picked from a calendar or typed in the locale's short format. Values
+ * are ISO text - see lib/dates. Add a `date` rule to check the value and to
+ * limit the days the calendar offers.
+ */
+export interface DateFieldSchema extends BaseFieldSchema {
+  /** A day, a day and a time of day, or a start and end day */
+  type: 'date' | 'datetime' | 'daterange';
+  defaultValue?: string;
+}
+
+/**
+ * Time slot picked from those an availability provider offers, e.g. to book
+ * a callback. The value is the start of the slot as an ISO instant, shown in
+ * the user's time zone.
+ */
+export interface TimeSlotFieldSchema extends BaseFieldSchema {
+  type: 'timeslot';
+  /** Loads the slots of the days shown - see lib/availability */
+  loadSlots: AvailabilityProvider;
+  /** Number of days shown at a time - defaults to 5 */
+  days?: number;
+  defaultValue?: string;
+}
+
+/**
+ * Single checkbox with a description
+ */
+export interface CheckboxFieldSchema extends BaseFieldSchema {
+  type: 'checkbox';
+  /** Longer description shown under the label */
+  description?: string;
+  defaultValue?: boolean;
+}
+
+export type FieldSchema =
+  | TextFieldSchema
+  | PhoneFieldSchema
+  | SelectFieldSchema
+  | MultiSelectFieldSchema
+  | RadioFieldSchema
+  | CheckboxFieldSchema
+  | FileFieldSchema
+  | DateFieldSchema
+  | TimeSlotFieldSchema;
+
+/**
+ * A group of related fields, rendered as a fieldset when it has a legend
+ */
+export interface SectionSchema {
+  /** Unique identifier for the section */
+  id: string;
+  /** Visible legend - sections without one are rendered without a fieldset */
+  legend?: string;
+  /** Colour treatment of the section container */
+  variant?: 'info' | 'neutral' | 'success';
+  fields: FieldSchema[];
+}
+
+/**
+ * A page of a multi-step form, made up of one or more sections
+ */
+export interface StepSchema {
+  /** Unique identifier for the step */
+  id: string;
+  /** Heading announced and shown when the step is active */
+  title: string;
+  /** Ids of the sections shown on this step, in order */
+  sections: string[];
+}
+
+/**
+ * Step with its sections resolved from the schema
+ */
+export interface ResolvedStep {
+  id: string;
+  title: string;
+  sections: SectionSchema[];
+  fields: FieldSchema[];
+}
+
+/**
+ * Complete description of a form
+ */
+export interface FormSchema {
+  /** Unique identifier for the form, used as the form element id */
+  id: string;
+  /** Heading shown in the form header */
+  title: string;
+  /** Introductory text shown under the heading */
+  description: string;
+  /** Accessible name of the form element */
+  ariaLabel: string;
+  sections: SectionSchema[];
+  /** How sections are split into steps in wizard mode - defaults to one step per section */
+  steps?: StepSchema[];
+  /** Response deadline promised for each urgency, sent with the submission and shown once it succeeds */
+  sla?: SlaPolicy;
+}
+
+/**
+ * Value of a radio field while its "Other" option is chosen
+ */
+export const OTHER_OPTION_VALUE = 'other';
+
+/**
+ * Name of the text field behind a radio field's "Other" option
+ */
+export const getOtherFieldName = (name: string): string => `${name}Other`;
+
+const getOtherField = (field: RadioFieldSchema): TextFieldSchema => ({
+  name: getOtherFieldName(field.name),
+  label: field.other.inputLabel ?? 'radio.otherInput',
+  type: 'text',
+  rules: field.other.rules,
+  visibleWhen: { field: field.name, equals: OTHER_OPTION_VALUE },
+  sensitive: field.sensitive
+});
+
+/**
+ * Returns the fields of a section in document order, including the text
+ * field of each radio field's "Other" option. That field is rendered by its
+ * radio group but validated, saved and submitted like any other.
+ */
+export const getSectionFields = (section: SectionSchema): FieldSchema[] =>
+  section.fields.flatMap(field =>
+    field.type === 'radio' && field.other ? [field, getOtherField(field)] : [field]
+  );
+
+/**
+ * Returns every field of the schema in document order
+ */
+export const getSchemaFields = (schema: FormSchema): FieldSchema[] =>
+  schema.sections.flatMap(getSectionFields);
+
+/**
+ * Builds the initial form state from the fields' default values
+ */
+export const getInitialValues = (schema: FormSchema): FormValues => {
+  const values: FormValues = {};
+
+  for (const field of getSchemaFields(schema)) {
+    if (field.type === 'checkbox') {
+      values[field.name] = field.defaultValue ?? false;
+    } else if (field.type === 'multiselect') {
+      values[field.name] = field.defaultValue ?? [];
+    } else if (field.type === 'file') {
+      values[field.name] = [];
+    } else {
+      values[field.name] = field.defaultValue ?? '';
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Maps each field name to its display label
+ */
+export const getFieldLabels = (schema: FormSchema): Record<string, string> =>
+  Object.fromEntries(getSchemaFields(schema).map(field => [field.name, field.label]));
+
+/**
+ * Resolves the wizard steps of a schema. Without explicit steps every
+ * section becomes its own step, titled by its legend.
+ */
+export const getSchemaSteps = (schema: FormSchema): ResolvedStep[] => {
+  const steps: StepSchema[] = schema.steps ?? schema.sections.map(section => ({
+    id: section.id,
+    title: section.legend ?? section.id,
+    sections: [section.id]
+  }));
+
+  return steps.map(step => {
+    const sections = step.sections
+      .map(id => schema.sections.find(section => section.id === id))
+      .filter((section): section is SectionSchema => Boolean(section));
+
+    return {
+      id: step.id,
+      title: step.title,
+      sections,
+      fields: sections.flatMap(getSectionFields)
+    };
+  });
+};
+
+const localizeOptions = (options: FieldOption[], t: Translate): FieldOption[] =>
+  options.map(option => ({
+    ...option,
+    label: t(option.label),
+    description: option.description && t(option.description),
+    group: option.group && t(option.group)
+  }));
+
+const localizeRules = (rules: ValidationRule[] | undefined, t: Translate): ValidationRule[] | undefined =>
+  rules?.map((rule): ValidationRule =>
+    rule.type === 'async'
+      ? { ...rule, message: t(rule.message, rule.params) }
+      : {
+        ...rule,
+        message: t(rule.message, rule.params),
+        explain: rule.explain && ((value, values) => rule.explain(value, values, t))
+      }
+  );
+
+const localizeField = (field: FieldSchema, t: Translate): FieldSchema => {
+  const common = {
+    label: t(field.label),
+    helpText: field.helpText && t(field.helpText),
+    rules: localizeRules(field.rules, t)
+  };
+
+  switch (field.type) {
+    case 'select':
+    case 'multiselect':
+      return {
+        ...field,
+        ...common,
+        placeholder: field.placeholder && t(field.placeholder),
+        options: localizeOptions(field.options, t)
+      };
+    case 'radio':
+      return {
+        ...field,
+        ...common,
+        options: localizeOptions(field.options, t),
+        other: field.other && {
+          ...field.other,
+          label: t(field.other.label ?? 'radio.other'),
+          description: field.other.description && t(field.other.description),
+          inputLabel: t(field.other.inputLabel ?? 'radio.otherInput'),
+          rules: localizeRules(field.other.rules, t)
+        }
+      };
+    case 'checkbox':
+      return { ...field, ...common, description: field.description && t(field.description) };
+    default:
+      return { ...field, ...common };
+  }
+};
+
+/**
+ * Returns a copy of the schema with every label, help text, option, legend,
+ * step title and rule message translated. Text that is not a message key is
+ * kept as is.
+ */
+export const localizeSchema = (schema: FormSchema, t: Translate): FormSchema => ({
+  ...schema,
+  title: t(schema.title),
+  description: t(schema.description),
+  ariaLabel: t(schema.ariaLabel),
+  sections: schema.sections.map(section => ({
+    ...section,
+    legend: section.legend && t(section.legend),
+    fields: section.fields.map(field => localizeField(field, t))
+  })),
+  steps: schema.steps?.map(step => ({ ...step, title: t(step.title) }))
+});
+
+/**
+ * Returns true when two field values are the same - multi-select and
+ * attachment values are compared item by item
+ */
+export const isSameValue = (a: FieldValue, b: FieldValue): boolean =>
+  Array.isArray(a) && Array.isArray(b)
+    ? a.length === b.length && a.every((item, index) => item === b[index])
+    : a === b;
+
+/**
+ * Formats a date field value in the locale's long style, or returns it as
+ * is when it is not a complete date
+ */
+const formatDateValue = (value: string, t: Translate): string => {
+  const problem = getDateProblem(value)?.problem;
+  if (problem === 'invalid' || problem === 'incompleteTime' || problem === 'incompleteRange') return value.trim();
+
+  const range = splitDateRange(value);
+  if (range) return t('field.dateRange', { start: range.start, end: range.end });
+  return t(value.includes('T') ? 'field.dateTime' : 'field.date', { date: value });
+};
+
+/**
+ * Formats a field's value for display, e.g. in a review summary.
+ * Option values are shown by their label, checkboxes as Yes/No and dates
+ * in the locale's long style.
+ * Empty values are returned as an empty string.
+ */
+export const formatFieldValue = (field: FieldSchema, value: FieldValue, t: Translate = defaultTranslate): string => {
+  switch (field.type) {
+    case 'checkbox':
+      return t(value ? 'field.yes' : 'field.no');
+    case 'phone':
+      return formatPhoneNumber(String(value ?? ''), field.defaultCountry);
+    case 'radio':
+      if (value === OTHER_OPTION_VALUE && field.other) {
+        return t(field.other.label ?? 'radio.other');
+      }
+      return field.options.find(option => option.value === value)?.label ?? String(value ?? '');
+    case 'select':
+      return field.options.find(option => option.value === value)?.label ?? String(value ?? '');
+    case 'multiselect':
+      return (Array.isArray(value) ? value : [])
+        .map(selected => field.options.find(option => option.value === selected)?.label ?? selected)
+        .join(', ');
+    case 'file':
+      return (Array.isArray(value) ? value : []).map(file => (file instanceof File ? file.name : file)).join(', ');
+    case 'date':
+    case 'datetime':
+    case 'daterange':
+      return formatDateValue(String(value ?? ''), t);
+    case 'timeslot':
+      return value ? t('field.dateTime', { date: String(value) }) : '';
+    default:
+      return String(value ?? '').trim();
+  }
+};
+
+/**
+ * Converts values to the form they are submitted in - phone numbers are
+ * normalized to E.164, and dates with a time to UTC instants
+ */
+export const normalizeValues = (fields: FieldSchema[], values: FormValues): FormValues => {
+  const normalized = { ...values };
+
+  for (const field of fields) {
+    const value = normalized[field.name];
+    if (field.type === 'phone' && typeof value === 'string' && value) {
+      normalized[field.name] = toE164(value, field.defaultCountry);
+    } else if (field.type === 'datetime' && typeof value === 'string' && value) {
+      normalized[field.name] = toUtcInstant(value);
+    }
+  }
+
+  return normalized;
+};
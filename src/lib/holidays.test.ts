@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { getUsFederalHolidays } from './holidays';
+
+describe('getUsFederalHolidays', () => {
+  it('lists every holiday of a year on the day it is observed', () => {
+    expect(getUsFederalHolidays(2026)).toEqual([
+      '2026-01-01', // New Year's Day, a Thursday
+      '2026-01-19', // third Monday of January
+      '2026-02-16', // third Monday of February
+      '2026-05-25', // last Monday of May
+      '2026-06-19',
+      '2026-07-03', // July 4 is a Saturday
+      '2026-09-07', // first Monday of September
+      '2026-10-12', // second Monday of October
+      '2026-11-11',
+      '2026-11-26', // fourth Thursday of November
+      '2026-12-25'
+    ]);
+  });
+
+  it('moves Sunday holidays to the Monday after', () => {
+    // June 19, 2022 and December 25, 2022 were Sundays
+    expect(getUsFederalHolidays(2022)).toContain('2022-06-20');
+    expect(getUsFederalHolidays(2022)).toContain('2022-12-26');
+    expect(getUsFederalHolidays(2022)).not.toContain('2022-12-25');
+  });
+
+  it('counts New Year\'s Day on a Saturday towards the year before', () => {
+    // January 1, 2028 is a Saturday, so it is observed on Friday, December 31, 2027
+    expect(getUsFederalHolidays(2027)).toContain('2027-12-31');
+    expect(getUsFederalHolidays(2028)).not.toContain('2027-12-31');
+    expect(getUsFederalHolidays(2028)).not.toContain('2028-01-01');
+    expect(getUsFederalHolidays(2028)).toHaveLength(10);
+  });
+
+  it('finds the last Monday of May in months with five Mondays', () => {
+    expect(getUsFederalHolidays(2027)).toContain('2027-05-31');
+    expect(getUsFederalHolidays(2028)).toContain('2028-05-29');
+  });
+
+  it('only lists weekdays, in order', () => {
+    for (let year = 2024; year <= 2040; year++) {
+      const holidays = getUsFederalHolidays(year);
+      const weekdays = holidays.map(day => new Date(`${day}T00:00:00Z`).getUTCDay());
+
+      expect(weekdays.every(weekday => weekday >= 1 && weekday <= 5)).toBe(true);
+      expect(holidays).toEqual([...holidays].sort());
+      expect(holidays.every(day => day.startsWith(`${year}-`))).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Public holiday calendars for SLA policies.
+ *
+ * Holidays are worked out from their rules rather than listed, so deadlines
+ * keep skipping them in years nobody thought to add. Days are ISO dates in
+ * the calendar's own country.
+ */
+
+const toIsoDay = (year: number, monthIndex: number, day: number) =>
+  new Date(Date.UTC(year, monthIndex, day)).toISOString().slice(0, 10);
+
+/**
+ * Day of the month of the `nth` given weekday - a negative `nth` counts from the end
+ */
+const nthWeekday = (year: number, monthIndex: number, weekday: number, nth: number): number => {
+  if (nth > 0) {
+    const first = new Date(Date.UTC(year, monthIndex, 1)).getUTCDay();
+    return 1 + ((weekday - first + 7) % 7) + (nth - 1) * 7;
+  }
+
+  const lastDay = new Date(Date.UTC(year, monthIndex + 1, 0));
+  return lastDay.getUTCDate() - ((lastDay.getUTCDay() - weekday + 7) % 7) + (nth + 1) * 7;
+};
+
+/**
+ * Moves a holiday on a Saturday to the Friday before and one on a Sunday to
+ * the Monday after, as federal employees observe them
+ */
+const observed = (year: number, monthIndex: number, day: number): string => {
+  const weekday = new Date(Date.UTC(year, monthIndex, day)).getUTCDay();
+  return toIsoDay(year, monthIndex, day + (weekday === 6 ? -1 : weekday === 0 ? 1 : 0));
+};
+
+const federalHolidaysOf = (year: number): string[] => [
+  observed(year, 0, 1), // New Year's Day
+  toIsoDay(year, 0, nthWeekday(year, 0, 1, 3)), // Birthday of Martin Luther King, Jr.
+  toIsoDay(year, 1, nthWeekday(year, 1, 1, 3)), // Washington's Birthday
+  toIsoDay(year, 4, nthWeekday(year, 4, 1, -1)), // Memorial Day
+  observed(year, 5, 19), // Juneteenth
+  observed(year, 6, 4), // Independence Day
+  toIsoDay(year, 8, nthWeekday(year, 8, 1, 1)), // Labor Day
+  toIsoDay(year, 9, nthWeekday(year, 9, 1, 2)), // Columbus Day
+  observed(year, 10, 11), // Veterans Day
+  toIsoDay(year, 10, nthWeekday(year, 10, 4, 4)), // Thanksgiving Day
+  observed(year, 11, 25) // Christmas Day
+];
+
+/**
+ * Returns the days US federal holidays are observed on in `year`. New Year's
+ * Day of the next year is included when it is observed on December 31.
+ */
+export const getUsFederalHolidays = (year: number): string[] =>
+  [...federalHolidaysOf(year), ...federalHolidaysOf(year + 1)].filter(day => day.startsWith(`${year}-`));
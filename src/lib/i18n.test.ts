@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { createTranslator, formatMessage, formatZonedDateTime, matchLocale, type LocaleDefinition } from './i18n';
+
+const issues = '{count, plural, =0 {No issues} one {# issue} other {# issues}}';
+
+const locale = (code: string, messages: Record<string, string>): LocaleDefinition =>
+  ({ code, name: code, dir: 'ltr', messages });
+
+describe('formatMessage', () => {
+  it('interpolates arguments and leaves unknown ones in place', () => {
+    expect(formatMessage('Hello {name}, you have {missing}', { name: 'Ada' })).toBe('Hello Ada, you have {missing}');
+  });
+
+  it('formats number arguments for the locale', () => {
+    expect(formatMessage('{max} characters', { max: 2000 }, 'en')).toBe('2,000 characters');
+    expect(formatMessage('{max} caracteres', { max: 20000 }, 'es')).toBe('20.000 caracteres');
+  });
+
+  it('picks plural branches, preferring exact matches', () => {
+    expect(formatMessage(issues, { count: 0 })).toBe('No issues');
+    expect(formatMessage(issues, { count: 1 })).toBe('1 issue');
+    expect(formatMessage(issues, { count: 1200 })).toBe('1,200 issues');
+  });
+
+  it('uses the plural categories of the locale', () => {
+    const template = '{count, plural, zero {zero} one {one} two {two} few {few} many {many} other {other}}';
+
+    expect([0, 1, 2, 3, 11, 100].map(count => formatMessage(template, { count }, 'ar')))
+      .toEqual(['zero', 'one', 'two', 'few', 'many', 'other']);
+    expect([0, 1, 2].map(count => formatMessage(template, { count }, 'en'))).toEqual(['other', 'one', 'other']);
+  });
+
+  it('falls back to the other branch', () => {
+    expect(formatMessage('{count, plural, other {# left}}', { count: 1 })).toBe('1 left');
+    expect(formatMessage('{kind, select, email {Email} other {Something else}}', { kind: 'fax' })).toBe('Something else');
+  });
+
+  it('picks select branches and formats arguments inside them', () => {
+    const template = '{method, select, email {We will email {name}} phone {We will call {name}} other {We will reply}}';
+
+    expect(formatMessage(template, { method: 'phone', name: 'Ada' })).toBe('We will call Ada');
+  });
+
+  it('nests plurals inside selects, keeping # for the count', () => {
+    const template = '{kind, select, file {{count, plural, one {# file} other {# files}}} other {nothing}}';
+
+    expect(formatMessage(template, { kind: 'file', count: 3 })).toBe('3 files');
+  });
+
+  it('formats date arguments in the long style of the locale', () => {
+    expect(formatMessage('Due {day, date}', { day: '2024-05-31' }, 'en')).toBe('Due May 31, 2024');
+    expect(formatMessage('Para el {day, date}', { day: '2024-05-31' }, 'es')).toBe('Para el 31 de mayo de 2024');
+  });
+
+  it('formats datetime arguments from local times and instants', () => {
+    const format = (date: Date) =>
+      new Intl.DateTimeFormat('en', { dateStyle: 'long', timeStyle: 'short' }).format(date);
+
+    expect(formatMessage('{at, datetime}', { at: '2024-05-31T14:30' })).toBe(format(new Date(2024, 4, 31, 14, 30)));
+    expect(formatMessage('{at, datetime}', { at: '2024-05-31T14:30:00.000Z' })).toBe(format(new Date(Date.UTC(2024, 4, 31, 14, 30))));
+  });
+
+  it('shows date arguments that are not dates as they are', () => {
+    expect(formatMessage('{day, date}', { day: 'soon' })).toBe('soon');
+  });
+
+  it('only treats # as the count inside a plural branch', () => {
+    expect(formatMessage('Ticket #{id}', { id: 7 })).toBe('Ticket #7');
+  });
+
+  it('keeps text after an unclosed brace as written', () => {
+    expect(formatMessage('Broken {name', { name: 'Ada' })).toBe('Broken {name');
+  });
+});
+
+describe('formatZonedDateTime', () => {
+  // Newer ICU data puts a narrow no-break space before AM/PM
+  const format = (date: Date, locale: string, timeZone: string) =>
+    formatZonedDateTime(date, locale, timeZone).replace(/\s/g, ' ');
+
+  it('shows the time on the clock of the given zone, naming it', () => {
+    const at = new Date('2026-11-03T21:00:00.000Z');
+
+    expect(format(at, 'en', 'America/New_York')).toBe('November 3, 2026 at 4:00 PM EST');
+    expect(format(at, 'es', 'America/New_York')).toBe('3 de noviembre de 2026, 16:00 GMT-5');
+  });
+
+  it('moves to the day it is in that zone', () => {
+    expect(format(new Date('2026-11-04T02:00:00.000Z'), 'en', 'America/Los_Angeles'))
+      .toBe('November 3, 2026 at 6:00 PM PST');
+  });
+});
+
+describe('createTranslator', () => {
+  const en = locale('en', { greeting: 'Hello {name}', farewell: 'Goodbye' });
+  const es = locale('es', { greeting: 'Hola {name}' });
+
+  it('formats the template of the key in the locale', () => {
+    expect(createTranslator(es, en)('greeting', { name: 'Ada' })).toBe('Hola Ada');
+  });
+
+  it('falls back to the fallback catalog, then to the text itself', () => {
+    const t = createTranslator(es, en);
+
+    expect(t('farewell')).toBe('Goodbye');
+    expect(t('Please call me back')).toBe('Please call me back');
+  });
+});
+
+describe('matchLocale', () => {
+  const available = [locale('en', {}), locale('es', {}), locale('ar', {})];
+
+  it('matches by language when there is no exact match', () => {
+    expect(matchLocale(available, ['es-MX', 'en'])?.code).toBe('es');
+  });
+
+  it('follows the order of preference', () => {
+    expect(matchLocale(available, ['fr-FR', 'ar-EG', 'en-US'])?.code).toBe('ar');
+  });
+
+  it('returns undefined when nothing matches', () => {
+    expect(matchLocale(available, ['fr', 'de'])).toBeUndefined();
+  });
+});
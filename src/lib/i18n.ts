@@ -0,0 +1,199 @@
+/**
+ * Message catalogs and ICU-style message formatting.
+ *
+ * Every user-facing string is looked up by key in the active locale's
+ * catalog. Templates support `{name}` arguments plus `plural` and `select`
+ * arguments, e.g.
+ *
+ * ```
+ * 'Please fix the following {count, plural, one {issue} other {# issues}}:'
+ * ```
+ *
+ * `{name, date}` and `{name, datetime}` arguments format an ISO date, local
+ * date and time, or instant in the locale's long style.
+ *
+ * Text that is not a key in any catalog is returned unchanged, so schemas and
+ * server responses can mix message keys with literal text.
+ */
+import type { Locale } from 'date-fns';
+import en from '@/locales/en';
+import type { Direction } from './direction';
+import { parseIsoDate, parseIsoInstant } from './dates';
+
+/**
+ * Values interpolated into a message template
+ */
+export type MessageValues = Record<string, string | number>;
+
+/**
+ * Message templates keyed by message key
+ */
+export type MessageCatalog = Record<string, string>;
+
+/**
+ * Looks up a message key and formats it with the given values
+ */
+export type Translate = (message: string, values?: MessageValues) => string;
+
+/**
+ * A bundled locale
+ */
+export interface LocaleDefinition {
+  /** BCP 47 language tag, e.g. "en" or "es" */
+  code: string;
+  /** Name of the language in the language itself, shown in the locale switcher */
+  name: string;
+  /** Reading direction, applied to the document when the locale is active */
+  dir: Direction;
+  /** date-fns locale used to read and write typed dates - US English when omitted */
+  dateLocale?: Locale;
+  messages: MessageCatalog;
+}
+
+/**
+ * Returns the index of the brace closing the one at `start`, or -1
+ */
+const findClosingBrace = (text: string, start: number): number => {
+  let depth = 0;
+
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '{') {
+      depth++;
+    } else if (text[i] === '}' && --depth === 0) {
+      return i;
+    }
+  }
+
+  return -1;
+};
+
+/**
+ * Splits plural or select options such as `one {# item} other {# items}`
+ * into a map of selector to template
+ */
+const parseOptions = (text: string): Record<string, string> => {
+  const options: Record<string, string> = {};
+  let position = 0;
+
+  while (position < text.length) {
+    const open = text.indexOf('{', position);
+    const close = open < 0 ? -1 : findClosingBrace(text, open);
+    if (close < 0) break;
+
+    options[text.slice(position, open).trim()] = text.slice(open + 1, close);
+    position = close + 1;
+  }
+
+  return options;
+};
+
+const formatArgument = (argument: string, values: MessageValues, locale: string, pound?: string): string => {
+  const [name, type = ''] = argument.split(',', 2).map(part => part.trim());
+  const value = values[name];
+
+  if (type === 'plural' || type === 'select') {
+    const optionsStart = argument.indexOf(',', argument.indexOf(',') + 1);
+    const options = parseOptions(optionsStart < 0 ? '' : argument.slice(optionsStart + 1));
+
+    if (type === 'plural') {
+      const count = Number(value);
+      const branch = options[`=${count}`] ?? options[new Intl.PluralRules(locale).select(count)] ?? options.other ?? '';
+      return formatMessage(branch, values, locale, new Intl.NumberFormat(locale).format(count));
+    }
+
+    return formatMessage(options[String(value)] ?? options.other ?? '', values, locale, pound);
+  }
+
+  if (value === undefined) return `{${argument}}`;
+
+  if (type === 'date' || type === 'datetime') {
+    const date = parseIsoDate(String(value)) ?? parseIsoInstant(String(value));
+    if (!date) return String(value);
+    return new Intl.DateTimeFormat(locale, { dateStyle: 'long', timeStyle: type === 'datetime' ? 'short' : undefined }).format(date);
+  }
+
+  return typeof value === 'number' ? new Intl.NumberFormat(locale).format(value) : value;
+};
+
+/**
+ * Formats an instant as a date and time in `timeZone` rather than the user's,
+ * naming the zone, e.g. "November 3, 2026 at 4:00 PM EST" - for times kept
+ * by someone else's clock, such as a response deadline set in office hours
+ */
+export const formatZonedDateTime = (date: Date, locale: string, timeZone: string): string =>
+  new Intl.DateTimeFormat(locale, {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone,
+    timeZoneName: 'short'
+  }).format(date);
+
+/**
+ * Formats an ICU-style template. Inside a plural branch `#` stands for the
+ * formatted count.
+ */
+export const formatMessage = (
+  template: string,
+  values: MessageValues = {},
+  locale = 'en',
+  pound?: string
+): string => {
+  let result = '';
+  let position = 0;
+
+  while (position < template.length) {
+    const char = template[position];
+
+    if (char === '#' && pound !== undefined) {
+      result += pound;
+      position++;
+    } else if (char === '{') {
+      const close = findClosingBrace(template, position);
+      if (close < 0) return result + template.slice(position);
+
+      result += formatArgument(template.slice(position + 1, close), values, locale, pound);
+      position = close + 1;
+    } else {
+      result += char;
+      position++;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Creates a translator for a locale. Keys missing from the locale's catalog
+ * fall back to `fallback`, then to the message itself.
+ */
+export const createTranslator = (locale: LocaleDefinition, fallback?: LocaleDefinition): Translate =>
+  (message, values) => {
+    const template = locale.messages[message] ?? fallback?.messages[message];
+    return template === undefined ? message : formatMessage(template, values, locale.code);
+  };
+
+/**
+ * Picks the bundled locale that best matches the user's preferred languages,
+ * e.g. "es" for "es-MX", or undefined when none matches
+ */
+export const matchLocale = (
+  available: LocaleDefinition[],
+  preferred: readonly string[]
+): LocaleDefinition | undefined => {
+  for (const tag of preferred) {
+    const language = tag.toLowerCase().split('-')[0];
+    const match = available.find(locale => locale.code.toLowerCase() === tag.toLowerCase())
+      ?? available.find(locale => locale.code.toLowerCase().split('-')[0] === language);
+    if (match) return match;
+  }
+
+  return undefined;
+};
+
+/**
+ * English translator, used wherever no locale has been chosen
+ */
+export const defaultTranslate: Translate = createTranslator(en);
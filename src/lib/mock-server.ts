@@ -0,0 +1,175 @@
+/**
+ * In-process mock submission server.
+ *
+ * Exposes a fetch-compatible function that answers requests with scripted
+ * responses, so the fetch transport can be exercised in tests and in local
+ * development without a real backend. See submission.test.ts.
+ */
+import type { FormErrors } from './form-schema';
+import type { ServerErrorPayload, UploadRequest } from './submission';
+
+/**
+ * Request as seen by a mock handler
+ */
+export interface MockRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  /** Parsed JSON body, the FormData of an upload, or the raw text when it is not JSON */
+  body: unknown;
+}
+
+/**
+ * Scripted response returned by a mock handler
+ */
+export interface MockResponse {
+  status: number;
+  /** Serialised as JSON when present */
+  body?: unknown;
+  /** Extra delay for this response on top of the server latency */
+  delayMs?: number;
+  /** Never respond - the request only settles when it is aborted */
+  hang?: boolean;
+}
+
+export type MockHandler = (request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+export interface MockServer {
+  /** Drop-in replacement for window.fetch */
+  fetch: typeof fetch;
+  /** Upload function for createFetchTransport that reports progress in steps over the server latency */
+  upload: UploadRequest;
+  /** Every request received, oldest first */
+  requests: MockRequest[];
+  /** Replaces the handler used for subsequent requests */
+  use: (handler: MockHandler) => void;
+  /** Clears recorded requests and restores the initial handler */
+  reset: () => void;
+}
+
+/**
+ * Ready-made responses for common scenarios
+ */
+export const mockResponses = {
+  accepted: (body: unknown = { id: 'mock-submission' }): MockResponse => ({ status: 201, body }),
+  fieldErrors: (fieldErrors: FormErrors, message?: string): MockResponse => ({
+    status: 422,
+    body: {
+      message,
+      errors: Object.entries(fieldErrors).map(([field, fieldMessage]) => ({ field, message: fieldMessage }))
+    } satisfies ServerErrorPayload
+  }),
+  serverError: (): MockResponse => ({ status: 500, body: { message: 'Internal server error' } }),
+  hang: (): MockResponse => ({ status: 0, hang: true })
+};
+
+let submissionCounter = 0;
+
+/**
+ * Default handler - accepts every submission and returns a generated id
+ */
+const acceptAll: MockHandler = () => {
+  submissionCounter += 1;
+  return mockResponses.accepted({ id: `mock-${submissionCounter}`, receivedAt: new Date().toISOString() });
+};
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+const wait = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = ms === Infinity ? undefined : setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+
+// Progress events reported by each mock upload
+const UPLOAD_STEPS = 10;
+
+const getBodySize = (body: FormData): number =>
+  Array.from(body.values()).reduce(
+    (size, value) => size + (typeof value === 'string' ? new Blob([value]).size : value.size),
+    0
+  );
+
+const readBody = (body: BodyInit | null | undefined): unknown => {
+  if (typeof body !== 'string') return body ?? null;
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+};
+
+/**
+ * Creates a mock server
+ *
+ * @param options.latencyMs - Delay applied to every response
+ * @param options.handler - Produces the response for each request
+ */
+export const createMockServer = ({
+  latencyMs = 0,
+  handler = acceptAll
+}: { latencyMs?: number; handler?: MockHandler } = {}): MockServer => {
+  let currentHandler = handler;
+  const requests: MockRequest[] = [];
+
+  /**
+   * Records the request and answers it with the handler's response after
+   * `delayMs` plus any delay the response asks for
+   */
+  const respond = async (input: RequestInfo | URL, init: RequestInit, delayMs: number): Promise<Response> => {
+    const request: MockRequest = {
+      url: input instanceof Request ? input.url : String(input),
+      method: (init.method ?? 'GET').toUpperCase(),
+      headers: Object.fromEntries(new Headers(init.headers).entries()),
+      body: readBody(init.body)
+    };
+    requests.push(request);
+
+    const response = await currentHandler(request);
+    await wait(response.hang ? Infinity : delayMs + (response.delayMs ?? 0), init.signal);
+
+    return new Response(response.body === undefined ? null : JSON.stringify(response.body), {
+      status: response.status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  };
+
+  const mockFetch = (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> =>
+    respond(input, init, latencyMs);
+
+  // The latency is spent sending the body, so the response follows the last progress event
+  const mockUpload: UploadRequest = async (url, init, onProgress) => {
+    const total = getBodySize(init.body);
+    for (let step = 1; step <= UPLOAD_STEPS; step++) {
+      await wait(latencyMs / UPLOAD_STEPS, init.signal);
+      onProgress({ loaded: Math.round((total * step) / UPLOAD_STEPS), total });
+    }
+    return respond(url, init, 0);
+  };
+
+  return {
+    fetch: mockFetch,
+    upload: mockUpload,
+    requests,
+    use: nextHandler => {
+      currentHandler = nextHandler;
+    },
+    reset: () => {
+      requests.length = 0;
+      currentHandler = handler;
+    }
+  };
+};
@@ -0,0 +1,123 @@
+/**
+ * Option list helpers for listbox widgets: filtering, type-ahead matching,
+ * skipping disabled options and grouping under headings.
+ */
+
+/**
+ * An option as listbox widgets see it
+ */
+export interface ListOption {
+  value: string;
+  label: string;
+  /** Heading the option is listed under */
+  group?: string;
+  /** Shown but cannot be chosen, and skipped by keyboard navigation */
+  disabled?: boolean;
+}
+
+/**
+ * A run of adjacent options sharing a group heading
+ */
+export interface OptionSection<T extends ListOption> {
+  /** Group heading, or undefined for options outside any group */
+  group?: string;
+  /** The section's options along with their index in the flat list */
+  options: { option: T; index: number }[];
+}
+
+/**
+ * Folds case and strips accents so "e" matches "É" - type-ahead and filters
+ * should not depend on how the user types accented letters
+ */
+export const normalizeSearchText = (text: string, locale?: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLocaleLowerCase(locale);
+
+/**
+ * Returns the options whose label contains `query`, in their original order
+ */
+export const filterOptions = <T extends ListOption>(options: T[], query: string, locale?: string): T[] => {
+  const needle = normalizeSearchText(query.trim(), locale);
+  return needle ? options.filter(option => normalizeSearchText(option.label, locale).includes(needle)) : options;
+};
+
+/**
+ * Returns the index of the next enabled option after `from` in the direction
+ * of `step` (1 or -1), or `from` when there is none. Pass -1 or
+ * options.length as `from` to find the first or last enabled option.
+ */
+export const findEnabledIndex = (options: ListOption[], from: number, step: 1 | -1): number => {
+  for (let index = from + step; index >= 0 && index < options.length; index += step) {
+    if (!options[index].disabled) return index;
+  }
+  return from;
+};
+
+/**
+ * Finds the enabled option whose label starts with the typed `search`,
+ * searching onwards from `current` and wrapping around. Typing the same
+ * letter repeatedly cycles through the options starting with it.
+ *
+ * @returns The matching index, or -1 when nothing matches
+ */
+export const findTypeAheadMatch = (
+  options: ListOption[],
+  search: string,
+  current: number,
+  locale?: string
+): number => {
+  const normalized = normalizeSearchText(search, locale);
+  const repeated = [...normalized].every(char => char === normalized[0]);
+  // A single letter moves past the current option, a longer search may keep matching it
+  const prefix = repeated ? normalized[0] : normalized;
+  const start = repeated || current < 0 ? current + 1 : current;
+
+  for (let offset = 0; offset < options.length; offset++) {
+    const index = (start + offset + options.length) % options.length;
+    const option = options[index];
+    if (!option.disabled && normalizeSearchText(option.label, locale).startsWith(prefix)) {
+      return index;
+    }
+  }
+
+  return -1;
+};
+
+/**
+ * Splits options into runs of adjacent options with the same group, keeping
+ * each option's index in the flat list for ids and keyboard focus
+ */
+export const groupOptions = <T extends ListOption>(options: T[]): OptionSection<T>[] => {
+  const sections: OptionSection<T>[] = [];
+
+  options.forEach((option, index) => {
+    const last = sections[sections.length - 1];
+    if (last && last.group === option.group) {
+      last.options.push({ option, index });
+    } else {
+      sections.push({ group: option.group, options: [{ option, index }] });
+    }
+  });
+
+  return sections;
+};
+
+/**
+ * One page of options returned by an OptionLoader
+ */
+export interface OptionPage<T extends ListOption = ListOption> {
+  options: T[];
+  /** Whether another page follows */
+  hasMore: boolean;
+}
+
+/**
+ * Loads options from a remote source, a page at a time. `query` is the
+ * filter text the user typed - loaders filter on the server. The signal
+ * aborts when the result is no longer needed.
+ */
+export type OptionLoader<T extends ListOption = ListOption> = (request: {
+  query: string;
+  /** Zero-based page number */
+  page: number;
+  signal: AbortSignal;
+}) => Promise<OptionPage<T>>;
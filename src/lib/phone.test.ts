@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import {
+  composePhoneValue,
+  findPhoneCountry,
+  formatNationalNumber,
+  formatPhoneNumber,
+  getPhoneProblem,
+  parsePhoneNumber,
+  toE164
+} from './phone';
+
+const country = (code: string) => {
+  const found = findPhoneCountry(code);
+  if (!found) throw new Error(`No phone country ${code}`);
+  return found;
+};
+
+describe('getPhoneProblem', () => {
+  it.each([
+    ['+1 (201) 555-0123', 'US'],
+    ['201.555.0123', 'US'],
+    ['+44 07400 123456', 'US'],
+    ['+447400123456', 'US'],
+    ['07400 123456', 'GB'],
+    ['+971 50 123 4567', 'US']
+  ])('accepts %s with %s as the default country', (value, defaultCountry) => {
+    expect(getPhoneProblem(value, defaultCountry)).toBeUndefined();
+  });
+
+  it('rejects letters and a plus anywhere but the start', () => {
+    expect(getPhoneProblem('201-555-CALL', 'US')).toBe('invalidCharacters');
+    expect(getPhoneProblem('201+5550123', 'US')).toBe('invalidCharacters');
+  });
+
+  it('rejects calling codes of countries that are not supported', () => {
+    expect(getPhoneProblem('+353 85 123 4567', 'US')).toBe('unknownCountry');
+    expect(getPhoneProblem('+', 'US')).toBe('unknownCountry');
+  });
+
+  it('checks the length without the trunk prefix', () => {
+    // Nine digits after the 0 is the shortest British number
+    expect(getPhoneProblem('0740012345', 'GB')).toBeUndefined();
+    expect(getPhoneProblem('074001234', 'GB')).toBe('tooShort');
+    expect(getPhoneProblem('+44 7400 1234567', 'US')).toBe('tooLong');
+  });
+
+  it('reads numbers without a calling code as national numbers of the default country', () => {
+    expect(getPhoneProblem('612 345 678', 'ES')).toBeUndefined();
+    expect(getPhoneProblem('612 345 678', 'US')).toBe('tooShort');
+  });
+});
+
+describe('parsePhoneNumber', () => {
+  it('prefers the default country among those sharing a calling code', () => {
+    expect(parsePhoneNumber('+1 506 234 5678', 'CA').country?.code).toBe('CA');
+    expect(parsePhoneNumber('+1 506 234 5678', 'GB').country?.code).toBe('US');
+  });
+
+  it('uses the longest matching calling code of a number typed without spaces', () => {
+    expect(parsePhoneNumber('+971501234567').country?.code).toBe('AE');
+  });
+
+  it('does not find a country for an incomplete calling code', () => {
+    expect(parsePhoneNumber('+4', 'US')).toMatchObject({ country: undefined, digits: '' });
+    expect(parsePhoneNumber('+44', 'US')).toMatchObject({ digits: '', nationalNumber: '' });
+  });
+});
+
+describe('formatting', () => {
+  it('groups national digits as far as they go', () => {
+    expect(formatNationalNumber('201', country('US'))).toBe('(201');
+    expect(formatNationalNumber('2015550', country('US'))).toBe('(201) 555-0');
+    expect(formatNationalNumber('201555012399', country('US'))).toBe('(201) 555-012399');
+  });
+
+  it('keeps the trunk prefix ahead of the grouping', () => {
+    expect(formatNationalNumber('07400123456', country('GB'))).toBe('07400 123456');
+  });
+
+  it('composes an empty value from a number without digits', () => {
+    expect(composePhoneValue(country('US'), '()-')).toBe('');
+    expect(composePhoneValue(country('US'), '2015550123')).toBe('+1 (201) 555-0123');
+  });
+
+  it('drops the trunk prefix in international form', () => {
+    expect(formatPhoneNumber('+44 07400 123456')).toBe('+44 7400 123456');
+    expect(toE164('+44 07400 123456')).toBe('+447400123456');
+  });
+
+  it('leaves invalid numbers unchanged when normalizing', () => {
+    expect(toE164('+44 0740', 'US')).toBe('+44 0740');
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Phone number parsing, as-you-type formatting and E.164 normalization.
+ *
+ * Phone fields store their value as the country calling code followed by the
+ * national number as typed and formatted, e.g. "+44 07400 123456". That keeps
+ * the value readable in drafts and the review summary while still telling
+ * which country it belongs to. Submissions are normalized to E.164
+ * ("+447400123456") with toE164.
+ */
+
+/**
+ * Numbering rules of a supported country
+ */
+export interface PhoneCountry {
+  /** ISO 3166-1 alpha-2 region code, e.g. "GB" */
+  code: string;
+  /** Country calling code without the plus, e.g. "44" */
+  dialCode: string;
+  /** Fewest digits in a national number, excluding the trunk prefix */
+  minLength: number;
+  /** Most digits in a national number, excluding the trunk prefix */
+  maxLength: number;
+  /** Grouping of the national number - `#` is a digit, anything else is inserted as typed */
+  format: string;
+  /** Digit dialled before national numbers within the country and dropped after the calling code, e.g. "0" */
+  trunkPrefix?: string;
+  /** Valid national number shown as a placeholder */
+  example: string;
+}
+
+/**
+ * Countries the phone field offers, in the order shown. Countries sharing a
+ * calling code must agree on the number lengths.
+ */
+export const phoneCountries: PhoneCountry[] = [
+  { code: 'US', dialCode: '1', minLength: 10, maxLength: 10, format: '(###) ###-####', example: '2015550123' },
+  { code: 'CA', dialCode: '1', minLength: 10, maxLength: 10, format: '(###) ###-####', example: '5062345678' },
+  { code: 'GB', dialCode: '44', minLength: 9, maxLength: 10, format: '#### ######', trunkPrefix: '0', example: '7400123456' },
+  { code: 'DE', dialCode: '49', minLength: 6, maxLength: 11, format: '### ########', trunkPrefix: '0', example: '15123456789' },
+  { code: 'FR', dialCode: '33', minLength: 9, maxLength: 9, format: '# ## ## ## ##', trunkPrefix: '0', example: '612345678' },
+  { code: 'ES', dialCode: '34', minLength: 9, maxLength: 9, format: '### ### ###', example: '612345678' },
+  { code: 'MX', dialCode: '52', minLength: 10, maxLength: 10, format: '## #### ####', example: '2221234567' },
+  { code: 'IN', dialCode: '91', minLength: 10, maxLength: 10, format: '##### #####', trunkPrefix: '0', example: '8123456789' },
+  { code: 'AU', dialCode: '61', minLength: 9, maxLength: 9, format: '### ### ###', trunkPrefix: '0', example: '412345678' },
+  { code: 'AE', dialCode: '971', minLength: 8, maxLength: 9, format: '## ### ####', trunkPrefix: '0', example: '501234567' },
+  { code: 'SA', dialCode: '966', minLength: 9, maxLength: 9, format: '## ### ####', trunkPrefix: '0', example: '512345678' },
+  { code: 'EG', dialCode: '20', minLength: 9, maxLength: 10, format: '### ### ####', trunkPrefix: '0', example: '1001234567' },
+  { code: 'IL', dialCode: '972', minLength: 8, maxLength: 9, format: '##-###-####', trunkPrefix: '0', example: '502345678' }
+];
+
+/**
+ * Why a phone number is not valid
+ */
+export type PhoneProblem = 'invalidCharacters' | 'unknownCountry' | 'tooShort' | 'tooLong';
+
+/**
+ * A phone value split into its parts
+ */
+export interface ParsedPhoneNumber {
+  country?: PhoneCountry;
+  /** Digits of the national number as typed, including any trunk prefix */
+  digits: string;
+  /** Digits of the national number without the trunk prefix */
+  nationalNumber: string;
+}
+
+const ALLOWED_CHARACTERS = /^[\d\s\-+().]*$/;
+
+export const findPhoneCountry = (code: string | undefined): PhoneCountry | undefined =>
+  phoneCountries.find(country => country.code === code);
+
+const stripTrunkPrefix = (digits: string, country?: PhoneCountry): string =>
+  country?.trunkPrefix && digits.startsWith(country.trunkPrefix)
+    ? digits.slice(country.trunkPrefix.length)
+    : digits;
+
+/**
+ * Applies the country's grouping to national digits as far as they go, so
+ * it can run on every keystroke. Digits beyond the pattern are appended as is.
+ */
+export const formatNationalNumber = (digits: string, country: PhoneCountry): string => {
+  const trunk = country.trunkPrefix && digits.startsWith(country.trunkPrefix) ? country.trunkPrefix : '';
+  const rest = digits.slice(trunk.length);
+  if (!rest) return trunk;
+
+  let formatted = '';
+  let used = 0;
+  for (const char of country.format) {
+    if (used === rest.length) break;
+    if (char === '#') {
+      formatted += rest[used++];
+    } else {
+      formatted += char;
+    }
+  }
+  formatted += rest.slice(used);
+
+  return trunk + formatted;
+};
+
+/**
+ * Builds the stored field value from a country and the national number as
+ * typed. An empty number gives an empty value, so required rules still apply.
+ */
+export const composePhoneValue = (country: PhoneCountry, nationalInput: string): string => {
+  const digits = nationalInput.replace(/\D/g, '');
+  return digits ? `+${country.dialCode} ${formatNationalNumber(digits, country)}` : '';
+};
+
+/**
+ * Finds the country for an international number, preferring `preferred` when
+ * several countries share the calling code
+ */
+const matchCallingCode = (digits: string, preferred?: string): PhoneCountry | undefined => {
+  const candidates = phoneCountries
+    .filter(country => digits.startsWith(country.dialCode))
+    .sort((a, b) => b.dialCode.length - a.dialCode.length);
+  const longest = candidates[0]?.dialCode;
+
+  return candidates.find(country => country.dialCode === longest && country.code === preferred) ?? candidates[0];
+};
+
+/**
+ * Splits a phone value into country and national number. Values without a
+ * leading "+" are read as national numbers of `defaultCountry`.
+ */
+export const parsePhoneNumber = (value: string, defaultCountry?: string): ParsedPhoneNumber => {
+  const trimmed = value.trim();
+
+  if (trimmed.startsWith('+')) {
+    // Stored values separate the calling code with a space - pasted ones may not
+    const [callingCode, ...rest] = trimmed.slice(1).split(/\s+/);
+    const allDigits = trimmed.replace(/\D/g, '');
+    const country = rest.length > 0 && /^\d+$/.test(callingCode)
+      ? matchCallingCode(callingCode, defaultCountry)
+      : matchCallingCode(allDigits, defaultCountry);
+    const digits = country ? allDigits.slice(country.dialCode.length) : '';
+
+    return { country, digits, nationalNumber: stripTrunkPrefix(digits, country) };
+  }
+
+  const country = findPhoneCountry(defaultCountry);
+  const digits = trimmed.replace(/\D/g, '');
+  return { country, digits, nationalNumber: stripTrunkPrefix(digits, country) };
+};
+
+/**
+ * Returns why a phone value is not a valid number, or undefined when it is
+ */
+export const getPhoneProblem = (value: string, defaultCountry?: string): PhoneProblem | undefined => {
+  if (!ALLOWED_CHARACTERS.test(value) || value.trim().lastIndexOf('+') > 0) return 'invalidCharacters';
+
+  const { country, nationalNumber } = parsePhoneNumber(value, defaultCountry);
+  if (!country) return 'unknownCountry';
+  if (nationalNumber.length < country.minLength) return 'tooShort';
+  if (nationalNumber.length > country.maxLength) return 'tooLong';
+
+  return undefined;
+};
+
+/**
+ * Formats a phone value for display in international form, without the
+ * trunk prefix, e.g. "+44 7400 123456"
+ */
+export const formatPhoneNumber = (value: string, defaultCountry?: string): string => {
+  const { country, nationalNumber } = parsePhoneNumber(value, defaultCountry);
+  return country && nationalNumber
+    ? `+${country.dialCode} ${formatNationalNumber(nationalNumber, country)}`
+    : value.trim();
+};
+
+/**
+ * Normalizes a valid phone value to E.164, e.g. "+447400123456".
+ * Invalid values are returned unchanged.
+ */
+export const toE164 = (value: string, defaultCountry?: string): string => {
+  if (getPhoneProblem(value, defaultCountry)) return value;
+
+  const { country, nationalNumber } = parsePhoneNumber(value, defaultCountry);
+  return `+${country.dialCode}${nationalNumber}`;
+};
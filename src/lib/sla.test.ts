@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { getUsFederalHolidays } from './holidays';
+import { addBusinessMinutes, getResponseDeadline, type SlaPolicy } from './sla';
+
+const policy: SlaPolicy = {
+  field: 'urgency',
+  targets: {
+    low: { businessDays: 5 },
+    medium: { businessDays: 2 },
+    high: { hours: 24 },
+    urgent: { hours: 4 },
+    callback: { businessHours: 3 }
+  },
+  businessHours: { timeZone: 'America/New_York', days: [1, 2, 3, 4, 5], open: '09:00', close: '17:00' },
+  holidays: getUsFederalHolidays
+};
+
+const deadline = (urgency: string, submittedAt: string) =>
+  getResponseDeadline(policy, urgency, new Date(submittedAt))?.toISOString();
+
+describe('getResponseDeadline', () => {
+  it('counts hour targets around the clock, ignoring business hours', () => {
+    // Saturday evening in New York
+    expect(deadline('urgent', '2026-10-24T23:00:00.000Z')).toBe('2026-10-25T03:00:00.000Z');
+    expect(deadline('high', '2026-10-24T23:00:00.000Z')).toBe('2026-10-25T23:00:00.000Z');
+  });
+
+  it('counts business days from the time of submission', () => {
+    // Monday 10:00 to Wednesday 10:00, New York time
+    expect(deadline('medium', '2026-10-19T14:00:00.000Z')).toBe('2026-10-21T14:00:00.000Z');
+    // Monday 10:00 to the Monday after
+    expect(deadline('low', '2026-10-19T14:00:00.000Z')).toBe('2026-10-26T14:00:00.000Z');
+  });
+
+  it('counts business hours within the opening hours of the day', () => {
+    // Monday 10:00 to 13:00
+    expect(deadline('callback', '2026-10-19T14:00:00.000Z')).toBe('2026-10-19T17:00:00.000Z');
+    // Monday 16:00 - one hour before closing, two after Tuesday's opening
+    expect(deadline('callback', '2026-10-19T20:00:00.000Z')).toBe('2026-10-20T15:00:00.000Z');
+  });
+
+  it('starts counting at the next opening when submitted outside business hours', () => {
+    // Monday 07:00 counts from 09:00
+    expect(deadline('callback', '2026-10-19T11:00:00.000Z')).toBe('2026-10-19T16:00:00.000Z');
+    // Friday 19:00 counts from Monday 09:00, ending Tuesday 17:00
+    expect(deadline('medium', '2026-10-23T23:00:00.000Z')).toBe('2026-10-27T21:00:00.000Z');
+  });
+
+  it('skips weekends', () => {
+    // Friday 16:00 - one hour on Friday, eight on Monday, seven on Tuesday
+    expect(deadline('medium', '2026-10-16T20:00:00.000Z')).toBe('2026-10-20T20:00:00.000Z');
+  });
+
+  it('skips holidays', () => {
+    // Wednesday before Thanksgiving 10:00 - Thursday is skipped, ending the Thursday after
+    expect(deadline('low', '2026-11-25T15:00:00.000Z')).toBe('2026-12-03T15:00:00.000Z');
+    // Thursday, December 30, 2027 10:00 - New Year's Day 2028 is observed on Friday
+    expect(deadline('medium', '2027-12-30T15:00:00.000Z')).toBe('2028-01-04T15:00:00.000Z');
+  });
+
+  it('keeps to the wall clock when daylight saving time ends on the way', () => {
+    // Friday 16:00 EDT to Tuesday 16:00 EST, which is five hours after UTC instead of four
+    expect(deadline('medium', '2026-10-30T20:00:00.000Z')).toBe('2026-11-03T21:00:00.000Z');
+  });
+
+  it('keeps to the wall clock when daylight saving time starts on the way', () => {
+    // Friday, March 6, 2026 10:00 EST to Tuesday 10:00 EDT
+    expect(deadline('medium', '2026-03-06T15:00:00.000Z')).toBe('2026-03-10T14:00:00.000Z');
+  });
+
+  it('returns undefined for urgencies without a target', () => {
+    expect(deadline('someday', '2026-10-19T14:00:00.000Z')).toBeUndefined();
+  });
+});
+
+describe('addBusinessMinutes', () => {
+  const hours = { timeZone: 'Europe/London', days: [1, 2, 3, 4, 5], open: '09:00', close: '17:30' };
+
+  it('accepts holidays as a list', () => {
+    // Thursday 17:00 with Friday off - half an hour on Thursday, half on Monday
+    expect(addBusinessMinutes(new Date('2026-12-24T17:00:00.000Z'), 60, hours, ['2026-12-25']).toISOString())
+      .toBe('2026-12-28T09:30:00.000Z');
+  });
+
+  it('ends at closing time when the minutes run out exactly then', () => {
+    // Monday 16:30 BST
+    expect(addBusinessMinutes(new Date('2026-10-19T15:30:00.000Z'), 60, hours).toISOString())
+      .toBe('2026-10-19T16:30:00.000Z');
+  });
+
+  it('fails when the business never opens', () => {
+    expect(() => addBusinessMinutes(new Date('2026-10-19T12:00:00.000Z'), 60, { ...hours, days: [] }))
+      .toThrow('Business hours have no open time within a year');
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Response deadlines promised by a form's urgency levels.
+ *
+ * A policy maps each urgency value to a response target. Targets in hours
+ * run around the clock; targets in business hours or days only count the
+ * opening hours of working days, skipping weekends and holidays. Opening
+ * hours are read in the business's time zone, whatever the user's is.
+ */
+
+/**
+ * When the business answers inquiries
+ */
+export interface BusinessHours {
+  /** IANA time zone the hours and holidays are in, e.g. "America/New_York" */
+  timeZone: string;
+  /** Working days of the week, 0 for Sunday to 6 for Saturday */
+  days: number[];
+  /** Opening time, e.g. "09:00" */
+  open: string;
+  /** Closing time, e.g. "17:00" */
+  close: string;
+}
+
+/**
+ * How soon a response is due - a business day is one day's opening hours
+ */
+export type ResponseTarget = { hours: number } | { businessHours: number } | { businessDays: number };
+
+/**
+ * Days the business is closed, as ISO dates in its time zone - either listed,
+ * or worked out for a year, e.g. getUsFederalHolidays
+ */
+export type Holidays = string[] | ((year: number) => string[]);
+
+/**
+ * Response targets of a form, keyed by the value of its urgency field
+ */
+export interface SlaPolicy {
+  /** Name of the field holding the urgency */
+  field: string;
+  targets: Record<string, ResponseTarget>;
+  businessHours: BusinessHours;
+  holidays?: Holidays;
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Wall-clock date and time of an instant in a time zone
+ */
+const getZonedParts = (date: Date, timeZone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+
+  const day = `${parts.year}-${parts.month}-${parts.day}`;
+  return {
+    day,
+    weekday: new Date(`${day}T00:00:00Z`).getUTCDay(),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    // The instant the same wall-clock reading would be in UTC, to work out the offset
+    asUtc: Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day), Number(parts.hour), Number(parts.minute), Number(parts.second))
+  };
+};
+
+/**
+ * Returns the instant a wall-clock time on a day has in a time zone
+ */
+const fromZonedTime = (day: string, minutes: number, timeZone: string): Date => {
+  const wallClock = Date.parse(`${day}T00:00:00Z`) + minutes * 60000;
+  const offsetAt = (instant: number) => getZonedParts(new Date(instant), timeZone).asUtc - Math.floor(instant / 1000) * 1000;
+
+  // Check the offset again at the result, in case a daylight saving change lies in between
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+};
+
+/**
+ * Returns a check for whether an ISO date is a holiday, working out each
+ * year's holidays once
+ */
+const createHolidayCheck = (holidays: Holidays) => {
+  if (Array.isArray(holidays)) return (day: string) => holidays.includes(day);
+
+  const byYear = new Map<number, string[]>();
+  return (day: string) => {
+    const year = Number(day.slice(0, 4));
+    if (!byYear.has(year)) {
+      byYear.set(year, holidays(year));
+    }
+    return byYear.get(year)?.includes(day) ?? false;
+  };
+};
+
+const nextDay = (day: string) => new Date(Date.parse(`${day}T00:00:00Z`) + 86400000).toISOString().slice(0, 10);
+
+/**
+ * Adds business minutes to an instant. Time outside opening hours does not
+ * count, so a count started after closing begins at the next opening.
+ */
+export const addBusinessMinutes = (
+  start: Date,
+  minutes: number,
+  { timeZone, days, open, close }: BusinessHours,
+  holidays: Holidays = []
+): Date => {
+  const isHoliday = createHolidayCheck(holidays);
+  const openMinutes = toMinutes(open);
+  const closeMinutes = toMinutes(close);
+  let remaining = minutes;
+  let { day, weekday, minutes: current } = getZonedParts(start, timeZone);
+
+  // A year of closed days is more than any policy allows - stop rather than loop forever
+  for (let checked = 0; checked < 366; checked++) {
+    if (days.includes(weekday) && !isHoliday(day) && current < closeMinutes) {
+      const from = Math.max(current, openMinutes);
+      if (remaining <= closeMinutes - from) {
+        return fromZonedTime(day, from + remaining, timeZone);
+      }
+      remaining -= closeMinutes - from;
+    }
+
+    day = nextDay(day);
+    weekday = (weekday + 1) % 7;
+    current = 0;
+  }
+
+  throw new Error('Business hours have no open time within a year');
+};
+
+/**
+ * Returns when a response is due for an inquiry of the given urgency sent
+ * at `submittedAt`, or undefined when the policy has no target for it
+ */
+export const getResponseDeadline = (policy: SlaPolicy, urgency: string, submittedAt: Date): Date | undefined => {
+  const target = policy.targets[urgency];
+  if (!target) return undefined;
+
+  if ('hours' in target) {
+    return new Date(submittedAt.getTime() + target.hours * 3600000);
+  }
+
+  const { businessHours, holidays } = policy;
+  const minutes = 'businessHours' in target
+    ? target.businessHours * 60
+    : target.businessDays * (toMinutes(businessHours.close) - toMinutes(businessHours.open));
+
+  return addBusinessMinutes(submittedAt, minutes, businessHours, holidays);
+};
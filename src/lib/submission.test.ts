@@ -0,0 +1,263 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMockServer, mockResponses } from './mock-server';
+import {
+  SubmissionError,
+  createFetchTransport,
+  mapHttpError,
+  parseServerErrors,
+  xhrUpload
+} from './submission';
+
+const request = { formId: 'contact-form', values: { name: 'Ada', email: 'ada@example.com' } };
+
+const submitWith = (server: ReturnType<typeof createMockServer>, options: { timeoutMs?: number } = {}) =>
+  createFetchTransport({ url: '/api/submissions', fetch: server.fetch, upload: server.upload, ...options });
+
+const rejection = (promise: Promise<unknown>) => promise.then(
+  () => {
+    throw new Error('Expected the submission to fail');
+  },
+  (error: unknown) => error as SubmissionError
+);
+
+describe('parseServerErrors', () => {
+  it('splits errors into field-keyed and form-level messages', () => {
+    expect(parseServerErrors({
+      message: 'Some fields were rejected',
+      errors: [
+        { field: 'email', code: 'email_domain_blocked', message: 'This email domain is not accepted' },
+        { field: 'email', message: 'A second message for the same field' },
+        { message: 'Submissions are closed for today' }
+      ]
+    })).toEqual({
+      message: 'Some fields were rejected',
+      fieldErrors: { email: 'This email domain is not accepted' },
+      formErrors: ['Submissions are closed for today']
+    });
+  });
+
+  it('accepts the fieldErrors shorthand without overriding listed errors', () => {
+    expect(parseServerErrors({
+      errors: [{ field: 'phone', message: 'From the list' }],
+      fieldErrors: { phone: 'From the shorthand', subject: 'Too long' }
+    }).fieldErrors).toEqual({ phone: 'From the list', subject: 'Too long' });
+  });
+
+  it('ignores malformed payloads and entries', () => {
+    expect(parseServerErrors('Bad Request')).toEqual({ fieldErrors: {}, formErrors: [] });
+    expect(parseServerErrors(null)).toEqual({ fieldErrors: {}, formErrors: [] });
+    expect(parseServerErrors({ message: 42, errors: [null, { field: 'email' }] })).toEqual({
+      message: undefined,
+      fieldErrors: {},
+      formErrors: []
+    });
+  });
+});
+
+describe('mapHttpError', () => {
+  it.each([
+    [422, { errors: [{ field: 'email', message: 'Taken' }] }, 'validation', 'submission.error.validation'],
+    [400, { message: 'Check the form', errors: [{ message: 'Closed' }] }, 'validation', 'Check the form'],
+    [401, null, 'unauthorized', 'submission.error.unauthorized'],
+    [403, { message: 'Not for you' }, 'unauthorized', 'Not for you'],
+    [408, null, 'timeout', 'submission.error.timeout'],
+    [504, null, 'timeout', 'submission.error.timeout'],
+    [429, { message: 'Slow down' }, 'rate-limited', 'submission.error.rateLimited'],
+    [500, { message: 'Internal server error' }, 'server', 'submission.error.server'],
+    [503, null, 'server', 'submission.error.server'],
+    [404, null, 'http', 'submission.error.http'],
+    [409, { message: 'Already sent' }, 'http', 'Already sent']
+  ])('maps %i to a %s error', (status, body, kind, message) => {
+    const error = mapHttpError(status, body);
+
+    expect(error).toBeInstanceOf(SubmissionError);
+    expect(error.kind).toBe(kind);
+    expect(error.message).toBe(message);
+    expect(error.status).toBe(status);
+  });
+
+  it('treats a 422 without any messages as a plain HTTP error', () => {
+    expect(mapHttpError(422, {}).kind).toBe('http');
+  });
+
+  it('keeps field and form errors of a rejected submission', () => {
+    const error = mapHttpError(422, { errors: [{ field: 'email', message: 'Taken' }, { message: 'Closed' }] });
+
+    expect(error.fieldErrors).toEqual({ email: 'Taken' });
+    expect(error.formErrors).toEqual(['Closed']);
+  });
+});
+
+describe('createFetchTransport', () => {
+  it('posts the submission as JSON and resolves with the response', async () => {
+    const server = createMockServer();
+
+    const result = await submitWith(server).submit(request);
+
+    expect(result.status).toBe(201);
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0]).toMatchObject({
+      url: '/api/submissions',
+      method: 'POST',
+      body: request
+    });
+    expect(server.requests[0].headers['content-type']).toBe('application/json');
+  });
+
+  it('rejects with the mapped error when the server refuses the submission', async () => {
+    const server = createMockServer({ handler: () => mockResponses.fieldErrors({ email: 'Email domain is blocked' }) });
+
+    const error = await rejection(submitWith(server).submit(request));
+
+    expect(error.kind).toBe('validation');
+    expect(error.fieldErrors).toEqual({ email: 'Email domain is blocked' });
+  });
+
+  it('rejects with a server error on a 5xx response', async () => {
+    const server = createMockServer({ handler: mockResponses.serverError });
+
+    const error = await rejection(submitWith(server).submit(request));
+
+    expect(error.kind).toBe('server');
+    expect(error.status).toBe(500);
+  });
+
+  it('rejects with a network error when the request cannot be sent', async () => {
+    const transport = createFetchTransport({
+      url: '/api/submissions',
+      fetch: () => Promise.reject(new TypeError('Failed to fetch'))
+    });
+
+    const error = await rejection(transport.submit(request));
+
+    expect(error.kind).toBe('network');
+    expect(error.message).toBe('submission.error.network');
+  });
+
+  it('gives up on a server that does not answer in time', async () => {
+    const server = createMockServer({ handler: mockResponses.hang });
+
+    const error = await rejection(submitWith(server, { timeoutMs: 20 }).submit(request));
+
+    expect(error.kind).toBe('timeout');
+  });
+
+  it('reports an abort by the caller as aborted, not as a timeout', async () => {
+    const server = createMockServer({ handler: mockResponses.hang });
+    const controller = new AbortController();
+
+    const submission = rejection(submitWith(server).submit(request, { signal: controller.signal }));
+    controller.abort();
+
+    expect((await submission).kind).toBe('aborted');
+  });
+
+  it('restarts the timeout while an upload makes progress', async () => {
+    // Ten progress events 15ms apart take 150ms in all, well past the 50ms timeout
+    const server = createMockServer({ latencyMs: 150 });
+    const onUploadProgress = vi.fn();
+    const file = new File(['screenshot'], 'screenshot.png', { type: 'image/png' });
+
+    const result = await submitWith(server, { timeoutMs: 50 }).submit(
+      { formId: 'contact-form', values: { subject: 'Broken', attachments: [file] } },
+      { onUploadProgress }
+    );
+
+    expect(result.status).toBe(201);
+    expect(onUploadProgress).toHaveBeenCalledTimes(10);
+    const [{ loaded, total }] = onUploadProgress.mock.lastCall ?? [];
+    expect(loaded).toBe(total);
+
+    const body = server.requests[0].body as FormData;
+    expect(body.get('formId')).toBe('contact-form');
+    expect(JSON.parse(String(body.get('values')))).toEqual({ subject: 'Broken' });
+    expect((body.get('attachments') as File).name).toBe('screenshot.png');
+  });
+
+  it('still times out a JSON request that takes as long', async () => {
+    const server = createMockServer({ latencyMs: 150 });
+
+    const error = await rejection(submitWith(server, { timeoutMs: 50 }).submit(request));
+
+    expect(error.kind).toBe('timeout');
+  });
+});
+
+/**
+ * Stands in for XMLHttpRequest, which Node does not have - the test decides
+ * when and how each request ends
+ */
+class FakeXhr {
+  static last: FakeXhr;
+
+  upload: { onprogress?: (event: { lengthComputable: boolean; loaded: number; total: number }) => void } = {};
+  onload?: () => void;
+  onerror?: () => void;
+  onabort?: () => void;
+  status = 0;
+  responseText = '';
+  abort = vi.fn(() => this.onabort?.());
+
+  constructor() {
+    FakeXhr.last = this;
+  }
+
+  open() {}
+  setRequestHeader() {}
+  send() {}
+  getResponseHeader() {
+    return 'application/json';
+  }
+}
+
+describe('xhrUpload', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const startUpload = (signal: AbortSignal, onProgress = vi.fn()) => {
+    vi.stubGlobal('XMLHttpRequest', FakeXhr);
+    return xhrUpload('/api/submissions', { method: 'POST', headers: {}, body: new FormData(), signal }, onProgress);
+  };
+
+  it('reports upload progress and resolves with the response', async () => {
+    const onProgress = vi.fn();
+    const upload = startUpload(new AbortController().signal, onProgress);
+
+    FakeXhr.last.upload.onprogress?.({ lengthComputable: true, loaded: 5, total: 10 });
+    FakeXhr.last.upload.onprogress?.({ lengthComputable: false, loaded: 0, total: 0 });
+    FakeXhr.last.status = 201;
+    FakeXhr.last.responseText = '{"id":"1"}';
+    FakeXhr.last.onload?.();
+
+    const response = await upload;
+    expect(onProgress).toHaveBeenCalledTimes(1);
+    expect(onProgress).toHaveBeenCalledWith({ loaded: 5, total: 10 });
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({ id: '1' });
+  });
+
+  it.each(['onload', 'onerror', 'onabort'] as const)('stops listening for aborts once %s fires', async handler => {
+    const controller = new AbortController();
+    const removeEventListener = vi.spyOn(controller.signal, 'removeEventListener');
+    const upload = startUpload(controller.signal).catch(() => undefined);
+
+    FakeXhr.last.status = 200;
+    FakeXhr.last[handler]?.();
+    await upload;
+    controller.abort();
+
+    expect(removeEventListener).toHaveBeenCalledWith('abort', expect.any(Function));
+    expect(FakeXhr.last.abort).not.toHaveBeenCalled();
+  });
+
+  it('aborts the request when the signal fires', async () => {
+    const controller = new AbortController();
+    const upload = startUpload(controller.signal);
+
+    controller.abort();
+
+    await expect(upload).rejects.toMatchObject({ name: 'AbortError' });
+    expect(FakeXhr.last.abort).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * Pluggable submission transport.
+ *
+ * AccessibleForm hands its values to a SubmissionTransport instead of talking
+ * to the network directly, so forms can post to a real endpoint, a mock
+ * server or anything else that implements the interface.
+ */
+import type { FormErrors, FormValues } from './form-schema';
+import type { UploadProgress } from './files';
+
+/**
+ * Data sent for a single form submission
+ */
+export interface SubmissionRequest {
+  /** Id of the schema the values belong to */
+  formId: string;
+  /** Values of every field, keyed by field name */
+  values: FormValues;
+  /** When a response is due as an ISO instant, for forms with an SLA policy */
+  responseDueBy?: string;
+}
+
+/**
+ * Successful response from the backend
+ */
+export interface SubmissionResult {
+  /** HTTP status code of the response */
+  status: number;
+  /** Parsed JSON body, or null when the response had none */
+  data: unknown;
+}
+
+export interface SubmitOptions {
+  /** Aborts the submission when signalled */
+  signal?: AbortSignal;
+  /** Called as the body of a multipart submission is sent */
+  onUploadProgress?: (progress: UploadProgress) => void;
+}
+
+/**
+ * Sends a submission to a backend
+ */
+export interface SubmissionTransport {
+  submit: (request: SubmissionRequest, options?: SubmitOptions) => Promise<SubmissionResult>;
+}
+
+export type SubmissionErrorKind =
+  | 'validation'
+  | 'unauthorized'
+  | 'rate-limited'
+  | 'server'
+  | 'http'
+  | 'timeout'
+  | 'network'
+  | 'aborted'
+  | 'configuration';
+
+/**
+ * Error thrown by transports when a submission does not succeed.
+ * The message is safe to show to the user once translated - it is either a
+ * `submission.error.*` message key or text sent by the server.
+ */
+export class SubmissionError extends Error {
+  /** Category of the failure */
+  readonly kind: SubmissionErrorKind;
+  /** HTTP status code, when the server responded */
+  readonly status?: number;
+  /** Field-keyed messages returned by the server */
+  readonly fieldErrors: FormErrors;
+  /** Server messages that do not belong to a single field */
+  readonly formErrors: string[];
+
+  constructor(
+    kind: SubmissionErrorKind,
+    message: string,
+    options: { status?: number; fieldErrors?: FormErrors; formErrors?: string[] } = {}
+  ) {
+    super(message);
+    this.name = 'SubmissionError';
+    this.kind = kind;
+    this.status = options.status;
+    this.fieldErrors = options.fieldErrors ?? {};
+    this.formErrors = options.formErrors ?? [];
+  }
+}
+
+/**
+ * A single problem reported by the backend
+ */
+export interface ServerFieldError {
+  /** Name of the rejected field - omit for problems with the submission as a whole */
+  field?: string;
+  /** Machine-readable reason, e.g. "email_domain_blocked" */
+  code?: string;
+  /** Message shown to the user */
+  message: string;
+}
+
+/**
+ * Standard error payload returned by the backend with a non-2xx status:
+ *
+ * ```json
+ * {
+ *   "message": "Some fields were rejected",
+ *   "errors": [{ "field": "email", "code": "email_domain_blocked", "message": "This email domain is not accepted" }]
+ * }
+ * ```
+ *
+ * A `fieldErrors` object keyed by field name is accepted as a shorthand.
+ */
+export interface ServerErrorPayload {
+  message?: string;
+  errors?: ServerFieldError[];
+  fieldErrors?: FormErrors;
+}
+
+/**
+ * Splits an error payload into field-keyed messages and messages that apply
+ * to the whole submission. Malformed payloads yield no messages.
+ */
+export const parseServerErrors = (payload: unknown): { message?: string; fieldErrors: FormErrors; formErrors: string[] } => {
+  const fieldErrors: FormErrors = {};
+  const formErrors: string[] = [];
+
+  if (!payload || typeof payload !== 'object') {
+    return { fieldErrors, formErrors };
+  }
+
+  const { message, errors, fieldErrors: shorthand } = payload as ServerErrorPayload;
+
+  if (Array.isArray(errors)) {
+    for (const error of errors) {
+      if (!error || typeof error.message !== 'string') continue;
+
+      if (error.field && !fieldErrors[error.field]) {
+        fieldErrors[error.field] = error.message;
+      } else if (!error.field) {
+        formErrors.push(error.message);
+      }
+    }
+  }
+
+  if (shorthand && typeof shorthand === 'object') {
+    for (const [field, fieldMessage] of Object.entries(shorthand)) {
+      if (typeof fieldMessage === 'string' && !fieldErrors[field]) {
+        fieldErrors[field] = fieldMessage;
+      }
+    }
+  }
+
+  return { message: typeof message === 'string' ? message : undefined, fieldErrors, formErrors };
+};
+
+/**
+ * Maps a non-2xx response to a SubmissionError with a user-facing message
+ */
+export const mapHttpError = (status: number, body: unknown): SubmissionError => {
+  const { message: serverMessage, fieldErrors, formErrors } = parseServerErrors(body);
+
+  if ((status === 400 || status === 422) && (Object.keys(fieldErrors).length > 0 || formErrors.length > 0)) {
+    return new SubmissionError(
+      'validation',
+      serverMessage ?? 'submission.error.validation',
+      { status, fieldErrors, formErrors }
+    );
+  }
+
+  if (status === 401 || status === 403) {
+    return new SubmissionError('unauthorized', serverMessage ?? 'submission.error.unauthorized', { status });
+  }
+
+  if (status === 408 || status === 504) {
+    return new SubmissionError('timeout', 'submission.error.timeout', { status });
+  }
+
+  if (status === 429) {
+    return new SubmissionError('rate-limited', 'submission.error.rateLimited', { status });
+  }
+
+  if (status >= 500) {
+    return new SubmissionError('server', 'submission.error.server', { status });
+  }
+
+  return new SubmissionError('http', serverMessage ?? 'submission.error.http', { status });
+};
+
+const isFileList = (value: unknown): value is File[] =>
+  Array.isArray(value) && value.length > 0 && value.every(item => item instanceof File);
+
+/**
+ * Returns every attached file in the order toMultipartBody sends them
+ */
+export const getAttachedFiles = (values: FormValues): File[] =>
+  Object.values(values).flatMap(value => (isFileList(value) ? value : []));
+
+/**
+ * Encodes a submission with attached files as multipart form data: a
+ * `formId` part, a `values` part holding the other values as JSON, a
+ * `responseDueBy` part when there is a deadline, then one part per file
+ * named after its field
+ */
+export const toMultipartBody = ({ formId, values, responseDueBy }: SubmissionRequest): FormData => {
+  const body = new FormData();
+  const otherValues: FormValues = {};
+  const files: [string, File][] = [];
+
+  for (const [name, value] of Object.entries(values)) {
+    if (isFileList(value)) {
+      files.push(...value.map((file): [string, File] => [name, file]));
+    } else {
+      otherValues[name] = value;
+    }
+  }
+
+  body.append('formId', formId);
+  body.append('values', JSON.stringify(otherValues));
+  if (responseDueBy) {
+    body.append('responseDueBy', responseDueBy);
+  }
+  for (const [name, file] of files) {
+    body.append(name, file, file.name);
+  }
+
+  return body;
+};
+
+/**
+ * Sends a multipart body, reporting progress as it goes, and resolves with
+ * the response. Rejects like fetch on network failure or abort.
+ */
+export type UploadRequest = (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body: FormData; signal: AbortSignal },
+  onProgress: (progress: UploadProgress) => void
+) => Promise<Response>;
+
+/**
+ * Uploads with XMLHttpRequest, since fetch cannot report upload progress
+ */
+export const xhrUpload: UploadRequest = (url, { method, headers, body, signal }, onProgress) =>
+  new Promise((resolve, reject) => {
+    const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+    if (signal.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    for (const [name, value] of Object.entries(headers)) {
+      xhr.setRequestHeader(name, value);
+    }
+
+    xhr.upload.onprogress = event => {
+      if (event.lengthComputable) {
+        onProgress({ loaded: event.loaded, total: event.total });
+      }
+    };
+    const abortRequest = () => xhr.abort();
+    xhr.onload = () => {
+      signal.removeEventListener('abort', abortRequest);
+      resolve(new Response(xhr.responseText || null, {
+        status: xhr.status,
+        headers: { 'Content-Type': xhr.getResponseHeader('Content-Type') ?? 'application/json' }
+      }));
+    };
+    xhr.onerror = () => {
+      signal.removeEventListener('abort', abortRequest);
+      reject(new TypeError('Network request failed'));
+    };
+    xhr.onabort = () => {
+      signal.removeEventListener('abort', abortRequest);
+      reject(abortError());
+    };
+    signal.addEventListener('abort', abortRequest, { once: true });
+
+    xhr.send(body);
+  });
+
+const parseJson = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (!text) return null;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+export interface FetchTransportOptions {
+  /** Endpoint the submission is posted to */
+  url: string;
+  /** HTTP method, defaults to POST */
+  method?: string;
+  /** Extra request headers */
+  headers?: Record<string, string>;
+  /** Milliseconds before the request is abandoned, defaults to 15 seconds - uploads restart the clock as they make progress */
+  timeoutMs?: number;
+  /** Fetch implementation, e.g. a mock server's fetch in tests */
+  fetch?: typeof fetch;
+  /** Sends submissions with attached files, defaults to xhrUpload */
+  upload?: UploadRequest;
+}
+
+/**
+ * Creates a transport that posts the submission as JSON with fetch.
+ * Submissions with attached files are sent as multipart with `upload`
+ * instead, so their progress can be reported.
+ */
+export const createFetchTransport = ({
+  url,
+  method = 'POST',
+  headers = {},
+  timeoutMs = 15000,
+  fetch: fetchImpl = (input, init) => fetch(input, init),
+  upload = xhrUpload
+}: FetchTransportOptions): SubmissionTransport => ({
+  submit: async (request, { signal, onUploadProgress } = {}) => {
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const startTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+    };
+    startTimer();
+    const abortFromCaller = () => controller.abort();
+    signal?.addEventListener('abort', abortFromCaller);
+
+    try {
+      let response: Response;
+      let data: unknown;
+      try {
+        // The browser sets the multipart Content-Type, including its boundary
+        response = getAttachedFiles(request.values).length > 0
+          ? await upload(
+            url,
+            { method, headers: { Accept: 'application/json', ...headers }, body: toMultipartBody(request), signal: controller.signal },
+            progress => {
+              startTimer();
+              onUploadProgress?.(progress);
+            }
+          )
+          : await fetchImpl(url, {
+            method,
+            headers: { 'Content-Type': 'application/json', Accept: 'application/json', ...headers },
+            body: JSON.stringify(request),
+            signal: controller.signal
+          });
+        data = await parseJson(response);
+      } catch {
+        if (timedOut) {
+          throw new SubmissionError('timeout', 'submission.error.timeout');
+        }
+        if (signal?.aborted) {
+          throw new SubmissionError('aborted', 'submission.error.aborted');
+        }
+        throw new SubmissionError('network', 'submission.error.network');
+      }
+
+      if (!response.ok) {
+        throw mapHttpError(response.status, data);
+      }
+
+      return { status: response.status, data };
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abortFromCaller);
+    }
+  }
+});
@@ -0,0 +1,218 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AvailabilityProvider } from './availability';
+import type { FieldSchema } from './form-schema';
+import { toIsoDate } from './dates';
+import { defaultTranslate } from './i18n';
+import {
+  custom,
+  date,
+  email,
+  isEmptyValue,
+  maxLength,
+  minLength,
+  pattern,
+  phone,
+  required,
+  slotAvailable,
+  upcoming,
+  validateField,
+  validateFieldAsync,
+  validateFields
+} from './validation';
+
+const textField = (rules: FieldSchema['rules'], overrides: Partial<FieldSchema> = {}): FieldSchema =>
+  ({ name: 'subject', label: 'Subject', type: 'text', rules, ...overrides }) as FieldSchema;
+
+describe('isEmptyValue', () => {
+  it.each([
+    ['', true],
+    ['   ', true],
+    ['text', false],
+    [[], true],
+    [['a'], false],
+    [false, true],
+    [true, false]
+  ])('treats %j as empty: %s', (value, expected) => {
+    expect(isEmptyValue(value)).toBe(expected);
+  });
+});
+
+describe('validateField', () => {
+  it('reports the required message for an empty required field', () => {
+    const field = textField([required('Subject is required'), minLength(3, 'Too short')]);
+
+    expect(validateField(field, { subject: '  ' })).toBe('Subject is required');
+  });
+
+  it('does not check an empty optional field any further', () => {
+    const field = textField([minLength(3, 'Too short')]);
+
+    expect(validateField(field, { subject: '' })).toBeUndefined();
+  });
+
+  it('reports the first failing rule in declaration order', () => {
+    const field = textField([
+      required('Subject is required'),
+      minLength(3, 'Too short'),
+      pattern(/^[a-z]+$/, 'Letters only')
+    ]);
+
+    expect(validateField(field, { subject: '1' })).toBe('Too short');
+    expect(validateField(field, { subject: '123' })).toBe('Letters only');
+    expect(validateField(field, { subject: 'abc' })).toBeUndefined();
+  });
+
+  it('counts length after trimming', () => {
+    const field = textField([minLength(3, 'Too short'), maxLength(5, 'Too long')]);
+
+    expect(validateField(field, { subject: ' ab ' })).toBe('Too short');
+    expect(validateField(field, { subject: ' abcde ' })).toBeUndefined();
+    expect(validateField(field, { subject: 'abcdef' })).toBe('Too long');
+  });
+
+  it('passes every form value to custom rules', () => {
+    const field = textField([
+      custom((value, values) => value === values.confirmSubject, 'Subjects do not match')
+    ]);
+
+    expect(validateField(field, { subject: 'a', confirmSubject: 'b' })).toBe('Subjects do not match');
+    expect(validateField(field, { subject: 'a', confirmSubject: 'a' })).toBeUndefined();
+  });
+
+  it('never reports hidden fields', () => {
+    const field = textField([required('Subject is required')], {
+      visibleWhen: { field: 'contactMethod', equals: 'email' }
+    });
+
+    expect(validateField(field, { subject: '', contactMethod: 'phone' })).toBeUndefined();
+    expect(validateField(field, { subject: '', contactMethod: 'email' })).toBe('Subject is required');
+  });
+});
+
+describe('validateFields', () => {
+  it('returns errors keyed by field name, leaving out valid fields', () => {
+    const fields = [
+      textField([required('Subject is required')]),
+      textField([required('Message is required')], { name: 'message' })
+    ];
+
+    expect(validateFields(fields, { subject: 'Hello', message: '' })).toEqual({ message: 'Message is required' });
+    expect(validateFields(fields, { subject: 'Hello', message: 'World' })).toEqual({});
+  });
+});
+
+describe('phone', () => {
+  const explain = (value: string, rule = phone()) => rule.explain?.(value, {}, defaultTranslate);
+
+  it('explains each problem with the number', () => {
+    expect(explain('201-555-CALL')).toBe('Phone numbers can only contain digits, spaces and the characters + ( ) - .');
+    expect(explain('+353 85 123 4567')).toBe('Enter a supported country calling code, such as +1 or +44');
+    expect(explain('+44 7400 1234')).toBe('This number is too short for United Kingdom. It needs at least 9 digits after +44.');
+    expect(explain('+1 201 555 01234')).toBe('This number is too long for United States. It can have at most 10 digits after +1.');
+  });
+
+  it('reads numbers without a calling code as numbers of the default country', () => {
+    expect(explain('612 345', phone(undefined, { defaultCountry: 'ES' }))).toBe('This number is too short for Spain. It needs at least 9 digits after +34.');
+  });
+
+  it('reports its own message instead, when given one', () => {
+    expect(explain('+44 7400 1234', phone('Please check the number'))).toBe('Please check the number');
+  });
+});
+
+describe('email', () => {
+  const explain = (value: string, rule = email()) => rule.explain?.(value, {}, defaultTranslate);
+
+  it('explains each problem with the address', () => {
+    expect(explain('jane.example.com')).toBe('An email address needs an @, as in name@example.com');
+    expect(explain('.jane@example.com')).toBe('Check the part before the @ - it can use letters, digits and . _ + - but cannot start or end with a dot');
+    expect(explain('jane@localhost')).toBe('Check the part after the @ - it should be a domain such as example.com');
+    expect(explain('jane@example.c')).toBe('The domain must end in an extension of at least two letters, such as .com or .org');
+    expect(explain(`jane@${Array(5).fill('a'.repeat(60)).join('.')}.com`)).toBe('Email addresses can be at most 254 characters long');
+  });
+
+  it('rejects addresses at blocked domains only when given a blocklist', () => {
+    const rule = email(undefined, { blocklist: ['mailinator.com'] });
+
+    expect(rule.test('jane@mailinator.com', {})).toBe(false);
+    expect(explain('jane@mailinator.com', rule)).toBe('Please use a permanent email address - we cannot reply to temporary inboxes');
+    expect(email().test('jane@mailinator.com', {})).toBe(true);
+  });
+
+  it('reports its own message instead, when given one', () => {
+    expect(explain('jane@', email('Please check the address'))).toBe('Please check the address');
+  });
+});
+
+describe('date', () => {
+  const explain = (value: string, rule = date()) => rule.explain?.(value, {}, defaultTranslate);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 4, 15, 10));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('explains each problem with the value', () => {
+    expect(explain('31/05/2024')).toBe('Enter a real date in the format shown');
+    expect(explain('2024-05-31T')).toBe('Enter both a date and a time');
+    expect(explain('2024-05-01/')).toBe('Enter both a start date and an end date');
+    expect(explain('2024-05-31/2024-05-01')).toBe('The end date must be on or after the start date');
+  });
+
+  it('names the limit a day breaks', () => {
+    expect(explain('2024-05-14', date(undefined, { min: 'today' }))).toBe('Choose a date on or after May 15, 2024');
+    expect(explain('2024-05-16', date(undefined, { max: 'today' }))).toBe('Choose a date on or before May 15, 2024');
+    expect(explain('2024-12-25', date(undefined, { disabledDays: { dates: ['2024-12-25'] } })))
+      .toBe('December 25, 2024 is not available - please choose another day');
+  });
+
+  it('reports its own message instead, when given one', () => {
+    expect(explain('2024-05-16', date('Please choose a past date', { max: 'today' }))).toBe('Please choose a past date');
+  });
+});
+
+describe('time slots', () => {
+  const slot = (start: string, available = true) =>
+    ({ start, end: new Date(Date.parse(start) + 30 * 60000).toISOString(), available });
+  const loadSlots = vi.fn<AvailabilityProvider>(async () => [
+    slot('2024-05-15T14:00:00.000Z'),
+    slot('2024-05-15T14:30:00.000Z', false)
+  ]);
+  const slotField = textField([upcoming(), slotAvailable(loadSlots)], { name: 'callbackSlot' });
+  const check = (start: string) =>
+    validateFieldAsync(slotField, { callbackSlot: start }, new AbortController().signal);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(Date.UTC(2024, 4, 15, 10)));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('rejects slots that have already started', () => {
+    expect(validateField(slotField, { callbackSlot: '2024-05-15T09:30:00.000Z' })).toBe('validation.upcoming');
+    expect(validateField(slotField, { callbackSlot: '2024-05-15T10:00:00.000Z' })).toBe('validation.upcoming');
+    expect(validateField(slotField, { callbackSlot: '2024-05-15T14:00:00.000Z' })).toBeUndefined();
+  });
+
+  it('accepts only slots the provider still lists as available', async () => {
+    await expect(check('2024-05-15T14:00:00.000Z')).resolves.toBeUndefined();
+    await expect(check('2024-05-15T14:30:00.000Z')).resolves.toBe('validation.slotAvailable');
+    await expect(check('2024-05-15T15:00:00.000Z')).resolves.toBe('validation.slotAvailable');
+  });
+
+  it('loads the day the slot starts on', async () => {
+    await check('2024-05-15T14:00:00.000Z');
+
+    expect(loadSlots).toHaveBeenLastCalledWith(expect.objectContaining({
+      from: toIsoDate(new Date(Date.UTC(2024, 4, 15, 14))),
+      days: 1
+    }));
+  });
+});
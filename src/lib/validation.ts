@@ -0,0 +1,382 @@
+/**
+ * Declarative validation engine shared by submit-time and field-level validation.
+ *
+ * Fields declare an ordered list of rules built with the helpers below. The
+ * first failing rule determines the field's error message. Asynchronous rules,
+ * e.g. checks against an endpoint, only run once every synchronous rule passes.
+ *
+ * Rule messages are message keys or literal text. They are translated, with
+ * the rule's `params`, when the schema is localized (see localizeSchema).
+ */
+import type { FieldSchema, FieldValue, FormErrors, FormValues } from './form-schema';
+import { defaultTranslate, type MessageValues, type Translate } from './i18n';
+import { evaluateCondition, isFieldVisible } from './conditions';
+import { getPhoneProblem, parsePhoneNumber } from './phone';
+import { getEmailProblem, isDisposableEmail } from './email';
+import { getDateProblem, parseIsoInstant, type DateConstraints } from './dates';
+import { isSlotAvailable, type AvailabilityProvider } from './availability';
+
+export type ValidationRuleType =
+  | 'required'
+  | 'minLength'
+  | 'maxLength'
+  | 'pattern'
+  | 'email'
+  | 'phone'
+  | 'date'
+  | 'minSelected'
+  | 'maxSelected'
+  | 'upcoming'
+  | 'custom';
+
+/**
+ * A single synchronous validation rule
+ */
+export interface SyncValidationRule {
+  /** Kind of rule - lets renderers tell e.g. whether a field is required */
+  type: ValidationRuleType;
+  /** Message key or text reported when the rule fails */
+  message: string;
+  /** Values interpolated into the message, e.g. `{ min: 10 }` */
+  params?: MessageValues;
+  /** Returns true when the value satisfies the rule */
+  test: (value: FieldValue, values: FormValues) => boolean;
+  /**
+   * Returns a more specific message for a failing value, e.g. naming the
+   * expected length, or undefined to report `message`
+   */
+  explain?: (value: FieldValue, values: FormValues, t: Translate) => string | undefined;
+}
+
+/**
+ * A validation rule that has to wait for a result, e.g. from an endpoint
+ */
+export interface AsyncValidationRule {
+  type: 'async';
+  /** Message key or text reported when the check resolves to false */
+  message: string;
+  /** Values interpolated into the message */
+  params?: MessageValues;
+  /** Milliseconds to wait after the last change before checking */
+  debounceMs: number;
+  /**
+   * Checks again when the form is submitted or a step is completed, even if
+   * the value was already checked - for results that go stale, e.g. whether
+   * a slot is still free
+   */
+  recheckOnSubmit?: boolean;
+  /**
+   * Resolves to true when valid, false to report `message`, or a string to
+   * report that message instead. The signal aborts when the value changes.
+   */
+  check: (value: FieldValue, values: FormValues, signal: AbortSignal) => Promise<boolean | string>;
+}
+
+/**
+ * Rule of a date field, carrying the limits its calendar enforces too
+ */
+export interface DateValidationRule extends SyncValidationRule {
+  type: 'date';
+  constraints: DateConstraints;
+}
+
+export type ValidationRule = SyncValidationRule | AsyncValidationRule;
+
+/**
+ * Returns true when a value counts as "not filled in"
+ */
+export const isEmptyValue = (value: FieldValue): boolean =>
+  typeof value === 'string' ? value.trim() === '' : Array.isArray(value) ? value.length === 0 : !value;
+
+const asText = (value: FieldValue): string => (typeof value === 'string' ? value : '');
+
+const asList = (value: FieldValue): unknown[] => (Array.isArray(value) ? value : []);
+
+/**
+ * Fails when the value is empty, or unchecked for checkboxes
+ */
+export const required = (message = 'validation.required'): SyncValidationRule => ({
+  type: 'required',
+  message,
+  test: value => !isEmptyValue(value)
+});
+
+/**
+ * Fails when the trimmed value is shorter than `min` characters
+ */
+export const minLength = (min: number, message = 'validation.minLength'): SyncValidationRule => ({
+  type: 'minLength',
+  message,
+  params: { min },
+  test: value => asText(value).trim().length >= min
+});
+
+/**
+ * Fails when the trimmed value is longer than `max` characters
+ */
+export const maxLength = (max: number, message = 'validation.maxLength'): SyncValidationRule => ({
+  type: 'maxLength',
+  message,
+  params: { max },
+  test: value => asText(value).trim().length <= max
+});
+
+/**
+ * Fails when the value does not match `regex`
+ */
+export const pattern = (regex: RegExp, message = 'validation.pattern'): SyncValidationRule => ({
+  type: 'pattern',
+  message,
+  test: value => regex.test(asText(value))
+});
+
+/**
+ * Fails when the value is not a well-formed email address: a missing @, a bad
+ * part before or after it, a missing top-level domain and overlong addresses
+ * each get their own message, unless the rule is given a `message` of its
+ * own. Addresses at a domain in `blocklist` (see disposableEmailDomains) are
+ * rejected as well.
+ */
+export const email = (
+  message = 'validation.email',
+  { blocklist }: { blocklist?: string[] } = {}
+): SyncValidationRule => ({
+  type: 'email',
+  message,
+  test: value => !getEmailProblem(asText(value)) && !(blocklist && isDisposableEmail(asText(value), blocklist)),
+  explain: (value, _values, t) => {
+    if (message !== 'validation.email') return t(message);
+
+    const problem = getEmailProblem(asText(value));
+    return problem ? t(`validation.email.${problem}`) : t('validation.email.disposable');
+  }
+});
+
+/**
+ * Fails when the value is not a valid number for its country: unknown calling
+ * codes, stray characters and numbers too short or too long for the country
+ * each get their own message, unless the rule is given a `message` of its
+ * own. Values without a calling code are read as numbers of `defaultCountry`.
+ */
+export const phone = (
+  message = 'validation.phone',
+  { defaultCountry = 'US' }: { defaultCountry?: string } = {}
+): SyncValidationRule => ({
+  type: 'phone',
+  message,
+  test: value => !getPhoneProblem(asText(value), defaultCountry),
+  explain: (value, _values, t) => {
+    if (message !== 'validation.phone') return t(message);
+
+    const text = asText(value);
+    const problem = getPhoneProblem(text, defaultCountry);
+    const { country } = parsePhoneNumber(text, defaultCountry);
+
+    if (problem === 'invalidCharacters') return t('validation.phone.invalidCharacters');
+    if (problem === 'unknownCountry' || !country) return t('validation.phone.unknownCountry');
+
+    const params = {
+      country: t(`countries.${country.code}`),
+      dialCode: country.dialCode,
+      min: country.minLength,
+      max: country.maxLength
+    };
+    return problem === 'tooShort' ? t('validation.phone.tooShort', params) : t('validation.phone.tooLong', params);
+  }
+});
+
+/**
+ * Fails when a date, date and time, or date range is not a real date, is
+ * half filled in, falls outside `min`/`max`, lands on a disabled day, or ends
+ * before it starts - each gets its own message, unless the rule is given a
+ * `message` of its own. Date fields read the constraints from this rule so
+ * their calendar offers only allowed days.
+ */
+export const date = (message = 'validation.date', constraints: DateConstraints = {}): DateValidationRule => ({
+  type: 'date',
+  message,
+  constraints,
+  test: value => !getDateProblem(asText(value), constraints),
+  explain: (value, _values, t) => {
+    if (message !== 'validation.date') return t(message);
+
+    const result = getDateProblem(asText(value), constraints);
+    return result && t(`validation.date.${result.problem}`, result.date ? { date: result.date } : undefined);
+  }
+});
+
+/**
+ * Fails when fewer than `min` options of a multi-select are chosen
+ */
+export const minSelected = (min: number, message = 'validation.minSelected'): SyncValidationRule => ({
+  type: 'minSelected',
+  message,
+  params: { min },
+  test: value => asList(value).length >= min
+});
+
+/**
+ * Fails when more than `max` options of a multi-select are chosen
+ */
+export const maxSelected = (max: number, message = 'validation.maxSelected'): SyncValidationRule => ({
+  type: 'maxSelected',
+  message,
+  params: { max },
+  test: value => asList(value).length <= max
+});
+
+/**
+ * Fails when an ISO instant, e.g. the start of a time slot, is not later than
+ * now. Runs again on every validation, so a slot picked a while ago that has
+ * since passed is caught on submit.
+ */
+export const upcoming = (message = 'validation.upcoming'): SyncValidationRule => ({
+  type: 'upcoming',
+  message,
+  test: value => (parseIsoInstant(asText(value))?.getTime() ?? 0) > Date.now()
+});
+
+/**
+ * Fails when `loadSlots` no longer lists the picked slot as available, e.g.
+ * because someone else booked it. Checked again on submit.
+ */
+export const slotAvailable = (
+  loadSlots: AvailabilityProvider,
+  message = 'validation.slotAvailable'
+): AsyncValidationRule =>
+  asyncRule((value, _values, signal) => isSlotAvailable(loadSlots, asText(value), signal), message, {
+    debounceMs: 0,
+    recheckOnSubmit: true
+  });
+
+/**
+ * Fails when `predicate` returns false. The predicate also receives every
+ * form value so rules can compare fields with each other.
+ */
+export const custom = (
+  predicate: (value: FieldValue, values: FormValues) => boolean,
+  message: string
+): SyncValidationRule => ({
+  type: 'custom',
+  message,
+  test: predicate
+});
+
+/**
+ * Fails when `check` resolves to false (or to a message). Checks are debounced
+ * while the user types and stale checks are aborted.
+ */
+export const asyncRule = (
+  check: AsyncValidationRule['check'],
+  message: string,
+  { debounceMs = 500, recheckOnSubmit }: { debounceMs?: number; recheckOnSubmit?: boolean } = {}
+): AsyncValidationRule => ({
+  type: 'async',
+  message,
+  debounceMs,
+  recheckOnSubmit,
+  check
+});
+
+/**
+ * Returns the field's asynchronous rules
+ */
+export const getAsyncRules = (field: FieldSchema): AsyncValidationRule[] =>
+  (field.rules ?? []).filter((rule): rule is AsyncValidationRule => rule.type === 'async');
+
+/**
+ * Returns the character limits set by the field's minLength and maxLength
+ * rules, so inputs can show a counter and enforce the maximum
+ */
+export const getLengthLimits = (field: FieldSchema): { min?: number; max?: number } => {
+  const limitOf = (type: 'minLength' | 'maxLength', param: 'min' | 'max') => {
+    const rule = field.rules?.find(candidate => candidate.type === type);
+    return rule?.params?.[param] === undefined ? undefined : Number(rule.params[param]);
+  };
+
+  return { min: limitOf('minLength', 'min'), max: limitOf('maxLength', 'max') };
+};
+
+/**
+ * Returns the limits set by the field's date rule, so date fields can
+ * disable the days validation would reject
+ */
+export const getDateConstraints = (field: FieldSchema): DateConstraints => {
+  const rule = field.rules?.find((candidate): candidate is DateValidationRule => candidate.type === 'date');
+  return rule?.constraints ?? {};
+};
+
+/**
+ * Returns true when the field declares a required rule and its
+ * `requiredWhen` condition, if any, holds for the current values
+ */
+export const isFieldRequired = (field: FieldSchema, values: FormValues): boolean => {
+  const hasRequiredRule = field.rules?.some(rule => rule.type === 'required') ?? false;
+  return hasRequiredRule && (!field.requiredWhen || evaluateCondition(field.requiredWhen, values));
+};
+
+/**
+ * Validates a single field against the current form values.
+ * Hidden fields are never invalid, and optional fields that are empty
+ * are not checked any further.
+ *
+ * @returns The message of the first failing rule, or undefined when valid
+ */
+export const validateField = (field: FieldSchema, values: FormValues): string | undefined => {
+  if (!isFieldVisible(field, values)) return undefined;
+
+  const rules = field.rules ?? [];
+  const value = values[field.name];
+
+  if (isEmptyValue(value)) {
+    return isFieldRequired(field, values)
+      ? rules.find(rule => rule.type === 'required')?.message
+      : undefined;
+  }
+
+  const failed = rules.find(
+    (rule): rule is SyncValidationRule => rule.type !== 'required' && rule.type !== 'async' && !rule.test(value, values)
+  );
+  return failed && (failed.explain?.(value, values, defaultTranslate) ?? failed.message);
+};
+
+/**
+ * Runs the field's asynchronous rules in order, assuming its synchronous
+ * rules already pass. Empty and hidden fields are not checked.
+ *
+ * @returns The first failure message, or undefined when valid
+ */
+export const validateFieldAsync = async (
+  field: FieldSchema,
+  values: FormValues,
+  signal: AbortSignal
+): Promise<string | undefined> => {
+  const value = values[field.name];
+  if (!isFieldVisible(field, values) || isEmptyValue(value)) return undefined;
+
+  for (const rule of getAsyncRules(field)) {
+    const result = await rule.check(value, values, signal);
+    if (result !== true) {
+      return typeof result === 'string' ? result : rule.message;
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Validates every field and returns the errors keyed by field name.
+ * Valid fields have no entry, so an empty object means the form is valid.
+ */
+export const validateFields = (fields: FieldSchema[], values: FormValues): FormErrors => {
+  const errors: FormErrors = {};
+
+  for (const field of fields) {
+    const error = validateField(field, values);
+    if (error) {
+      errors[field.name] = error;
+    }
+  }
+
+  return errors;
+};
@@ -0,0 +1,100 @@
+/**
+ * Layout math for windowed listboxes: only the options inside the scrolled
+ * viewport (plus some overscan) are rendered, each absolutely positioned at
+ * its offset within a container as tall as the whole list.
+ *
+ * Rows have fixed heights so offsets can be computed without measuring.
+ */
+import type { ListOption, OptionSection } from './options';
+
+export interface VirtualListLayout {
+  /** Top offset of each option, indexed like the flat option list */
+  optionOffsets: number[];
+  /** Top offset of each section's group heading, or undefined for sections without a group */
+  headingOffsets: (number | undefined)[];
+  /** Height of the whole list */
+  totalHeight: number;
+  optionHeight: number;
+}
+
+/**
+ * Computes where every option and group heading sits in the list
+ */
+export const getVirtualListLayout = <T extends ListOption>(
+  sections: OptionSection<T>[],
+  { optionHeight, headingHeight }: { optionHeight: number; headingHeight: number }
+): VirtualListLayout => {
+  const optionOffsets: number[] = [];
+  const headingOffsets: (number | undefined)[] = [];
+  let offset = 0;
+
+  for (const section of sections) {
+    if (section.group) {
+      headingOffsets.push(offset);
+      offset += headingHeight;
+    } else {
+      headingOffsets.push(undefined);
+    }
+
+    for (const { index } of section.options) {
+      optionOffsets[index] = offset;
+      offset += optionHeight;
+    }
+  }
+
+  return { optionOffsets, headingOffsets, totalHeight: offset, optionHeight };
+};
+
+/**
+ * Returns the first and last index of the options that overlap the viewport,
+ * widened by `overscan` pixels on each side so fast scrolling does not show
+ * gaps. Returns [0, -1] for an empty list.
+ */
+export const getVisibleRange = (
+  layout: VirtualListLayout,
+  scrollTop: number,
+  viewportHeight: number,
+  overscan = 0
+): [number, number] => {
+  const { optionOffsets, optionHeight } = layout;
+  const top = scrollTop - overscan;
+  const bottom = scrollTop + viewportHeight + overscan;
+
+  // Offsets only grow, so binary search for the first option ending below `top`
+  let low = 0;
+  let high = optionOffsets.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (optionOffsets[middle] + optionHeight <= top) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  let last = low;
+  while (last < optionOffsets.length && optionOffsets[last] < bottom) {
+    last++;
+  }
+
+  return [low, last - 1];
+};
+
+/**
+ * Returns the scroll position that brings an option fully into view while
+ * moving as little as possible, like scrollIntoView({ block: 'nearest' })
+ */
+export const getScrollTopForOption = (
+  layout: VirtualListLayout,
+  index: number,
+  scrollTop: number,
+  viewportHeight: number
+): number => {
+  const top = layout.optionOffsets[index];
+  if (top === undefined) return scrollTop;
+
+  const bottom = top + layout.optionHeight;
+  if (top < scrollTop) return top;
+  if (bottom > scrollTop + viewportHeight) return bottom - viewportHeight;
+  return scrollTop;
+};
@@ -0,0 +1,276 @@
+import { ar as dateLocale } from 'date-fns/locale/ar';
+import type { LocaleDefinition } from '@/lib/i18n';
+
+/**
+ * Arabic messages - right-to-left
+ */
+const ar: LocaleDefinition = {
+  code: 'ar',
+  name: 'العربية',
+  dir: 'rtl',
+  dateLocale,
+  messages: {
+    // Form chrome
+    'form.skipLink': 'انتقل إلى نموذج التواصل',
+    'form.instructions': 'يتيح لك هذا النموذج إرسال رسالة إلينا. استخدم مفتاح Tab للتنقل بين الحقول. الحقول المطلوبة مميزة بعلامة النجمة وتعلن عنها برامج قراءة الشاشة.',
+    'form.requiredNote': 'الحقول المميزة بعلامة النجمة (*) مطلوبة.',
+    'form.localeLabel': 'اللغة',
+
+    // Fields
+    'field.requiredMarker': 'حقل مطلوب',
+    'field.labelRequired': '{label} (مطلوب)',
+    'field.labelOptional': '{label} (اختياري)',
+    'field.placeholder': 'أدخل {label}...',
+    'field.checking': 'جارٍ التحقق من {label}...',
+    'field.yes': 'نعم',
+    'field.no': 'لا',
+    'field.counter.remaining': '{count, plural, zero {لم يتبق أي حرف} one {تبقى حرف واحد} two {تبقى حرفان} few {تبقت # أحرف} many {تبقى # حرفًا} other {تبقى # حرف}}',
+    'field.counter.over': '{count, plural, zero {لا توجد أحرف زائدة} one {حرف واحد فوق الحد} two {حرفان فوق الحد} few {# أحرف فوق الحد} many {# حرفًا فوق الحد} other {# حرف فوق الحد}}',
+    'field.counter.overLimit': 'تجاوزت الحد الأقصى البالغ {max, plural, zero {# حرف} one {حرفًا واحدًا} two {حرفين} few {# أحرف} many {# حرفًا} other {# حرف}}',
+    'field.counter.withinLimit': 'عدت ضمن الحد الأقصى البالغ {max, plural, zero {# حرف} one {حرفًا واحدًا} two {حرفين} few {# أحرف} many {# حرفًا} other {# حرف}}',
+    'field.counter.needed': '{count, plural, zero {لا حاجة لأحرف إضافية} one {يلزم حرف واحد إضافي} two {يلزم حرفان إضافيان} few {تلزم # أحرف إضافية} many {يلزم # حرفًا إضافيًا} other {يلزم # حرف إضافي}}',
+    'field.counter.count': '{count, plural, zero {لا أحرف} one {حرف واحد} two {حرفان} few {# أحرف} many {# حرفًا} other {# حرف}}',
+    'field.date': '{date, date}',
+    'field.dateTime': '{date, datetime}',
+    'field.dateRange': 'من {start, date} إلى {end, date}',
+
+    // Custom select
+    'select.placeholder': 'اختر خيارًا',
+    'select.opened': '{count, plural, zero {لا توجد خيارات متاحة} one {خيار واحد متاح} two {خياران متاحان} few {# خيارات متاحة} many {# خيارًا متاحًا} other {# خيار متاح}}. استخدم مفاتيح الأسهم للتنقل.',
+    'select.selected': 'تم اختيار: {label}',
+    'select.cancelled': 'تم إلغاء الاختيار',
+    'select.filterLabel': 'تصفية خيارات {label}',
+    'select.filterPlaceholder': 'اكتب للتصفية...',
+    'select.results': '{count, plural, zero {لا توجد خيارات مطابقة} one {خيار واحد مطابق} two {خياران مطابقان} few {# خيارات مطابقة} many {# خيارًا مطابقًا} other {# خيار مطابق}}',
+    'select.noResults': 'لا توجد خيارات مطابقة',
+    'select.added': 'تم اختيار {label}.',
+    'select.removed': 'تمت إزالة {label}.',
+    'select.count': '{count, plural, zero {لم يتم اختيار شيء} one {تم اختيار خيار واحد} two {تم اختيار خيارين} few {تم اختيار # خيارات} many {تم اختيار # خيارًا} other {تم اختيار # خيار}}',
+    'select.chipsLabel': 'الخيارات المختارة في {label}',
+    'select.remove': 'إزالة {label}',
+    'select.loading': 'جارٍ تحميل الخيارات...',
+    'select.loadingMore': 'جارٍ تحميل المزيد من الخيارات...',
+    'select.loaded': '{count, plural, zero {لم يتم العثور على خيارات} one {تم تحميل خيار واحد} two {تم تحميل خيارين} few {تم تحميل # خيارات} many {تم تحميل # خيارًا} other {تم تحميل # خيار}}',
+    'select.loadFailed': 'تعذر تحميل الخيارات.',
+    'select.retry': 'إعادة المحاولة',
+    'select.empty': 'لا توجد خيارات متاحة',
+
+    // Radio cards
+    'radio.other': 'أخرى (يرجى التحديد)',
+    'radio.otherInput': 'يرجى التحديد',
+
+    // File attachments
+    'file.choose': 'اختر الملفات أو أفلتها هنا',
+    'file.dropHere': 'أفلت للإرفاق',
+    'file.hint.types': 'الأنواع المقبولة: {types}.',
+    'file.hint.size': 'الحجم الأقصى: {size} لكل ملف.',
+    'file.hint.count': '{max, plural, zero {لا يمكن إرفاق ملفات.} one {ملف واحد فقط.} two {ملفان كحد أقصى.} few {حتى # ملفات.} many {حتى # ملفًا.} other {حتى # ملف.}}',
+    'file.listLabel': 'الملفات المرفقة',
+    'file.rejectedLabel': 'ملفات لم تُرفق',
+    'file.remove': 'إزالة {name}',
+    'file.dismiss': 'تجاهل {name}',
+    'file.added': 'تم إرفاق {name}.',
+    'file.removed': 'تمت إزالة {name}.',
+    'file.rejected.type': 'لم يتم إرفاق {name}: هذا النوع من الملفات غير مقبول.',
+    'file.rejected.size': 'لم يتم إرفاق {name}: حجمه أكبر من {size}.',
+    'file.rejected.count': 'لم يتم إرفاق {name}: {max, plural, zero {لا يمكن إرفاق ملفات} one {لا يمكن إرفاق أكثر من ملف واحد} two {لا يمكن إرفاق أكثر من ملفين} few {لا يمكن إرفاق أكثر من # ملفات} many {لا يمكن إرفاق أكثر من # ملفًا} other {لا يمكن إرفاق أكثر من # ملف}}.',
+    'file.rejected.duplicate': '{name} مرفق بالفعل.',
+    'file.uploading': 'جارٍ رفع {name}',
+    'file.uploadStarted': '{count, plural, zero {لا توجد ملفات للرفع} one {جارٍ رفع ملف واحد...} two {جارٍ رفع ملفين...} few {جارٍ رفع # ملفات...} many {جارٍ رفع # ملفًا...} other {جارٍ رفع # ملف...}}',
+    'file.uploaded': 'تم رفع {name}.',
+
+    // Dates
+    'date.hint': 'مثال: {example}',
+    'date.date': 'التاريخ',
+    'date.time': 'الوقت',
+    'date.start': 'تاريخ البداية',
+    'date.end': 'تاريخ النهاية',
+    'date.openCalendar': 'اختر {label} من التقويم',
+    'date.calendarLabel': 'تقويم {label}',
+    'date.previousMonth': 'الشهر السابق',
+    'date.nextMonth': 'الشهر التالي',
+    'date.selected': 'تم اختيار {date, date}.',
+    'date.rangeSelected': 'تم اختيار الفترة من {start, date} إلى {end, date}.',
+
+    // Time slots
+    'slot.timeZone': 'تُعرض الأوقات حسب منطقتك الزمنية: {timeZone}.',
+    'slot.earlier': 'عرض الأيام السابقة',
+    'slot.later': 'عرض الأيام التالية',
+    'slot.range': 'من {start, date} إلى {end, date}',
+    'slot.showing': 'من {start, date} إلى {end, date}: {count, plural, zero {لا توجد أوقات متاحة} one {وقت واحد متاح} two {وقتان متاحان} few {# أوقات متاحة} many {# وقتًا متاحًا} other {# وقت متاح}}.',
+    'slot.loading': 'جارٍ تحميل الأوقات المتاحة...',
+    'slot.loadFailed': 'تعذر تحميل الأوقات المتاحة.',
+    'slot.noneThisDay': 'لا توجد أوقات متاحة',
+    'slot.taken': '(محجوز)',
+    'slot.selected': 'تم اختيار {time, datetime}.',
+    'slot.pickedSummary': 'الوقت المختار: {time, datetime}',
+    'slot.clear': 'مسح',
+    'slot.cleared': 'تم مسح الوقت.',
+
+    // Conditional fields
+    'conditions.shown': 'تمت إضافة حقل {label}.',
+    'conditions.hidden': 'تمت إزالة حقل {label}.',
+    'conditions.required': 'أصبح {label} مطلوبًا.',
+    'conditions.optional': 'أصبح {label} اختياريًا.',
+
+    // Drafts
+    'draft.title': 'لديك مسودة لم تُرسل',
+    'draft.description': 'حفظنا تقدمك في هذا النموذج ({savedAt}). هل تريد المتابعة من حيث توقفت؟',
+    'draft.savedEarlier': 'سابقًا',
+    'draft.restore': 'استعادة المسودة',
+    'draft.discard': 'تجاهل المسودة',
+    'draft.restored': 'تمت استعادة مسودتك.',
+    'draft.discarded': 'تم تجاهل مسودتك.',
+
+    // Wizard
+    'steps.progress': 'تقدم النموذج',
+    'steps.position': 'الخطوة {current} من {total}',
+    'steps.positionWithTitle': 'الخطوة {current} من {total}: {title}',
+    'steps.completed': 'مكتملة: ',
+    'steps.current': 'الحالية: ',
+    'steps.back': 'السابق',
+    'steps.next': 'التالي',
+
+    // Review
+    'review.title': 'راجع إجاباتك',
+    'review.description': 'يرجى التحقق من المعلومات أدناه قبل الإرسال. اختر تعديل لتغيير إجابة.',
+    'review.notProvided': 'غير مُدخل',
+    'review.edit': 'تعديل',
+    'review.opened': 'راجع إجاباتك قبل الإرسال.',
+    'review.closed': 'عدت إلى النموذج.',
+
+    // Submission
+    'submit.send': 'إرسال الرسالة',
+    'submit.submitting': 'جارٍ الإرسال...',
+    'submit.submittingHint': 'يرجى الانتظار بينما نرسل رسالتك',
+    'submit.checking': 'جارٍ التحقق...',
+    'submit.checkingHint': 'يرجى الانتظار بينما نتحقق من إجاباتك',
+    'submit.terms': 'بالإرسال، أنت توافق على شروطنا وسياسة الخصوصية',
+    'status.checking': 'جارٍ التحقق من إجاباتك. يرجى الانتظار.',
+    'status.submitting': 'جارٍ إرسال النموذج. يرجى الانتظار.',
+    'submission.started': 'جارٍ إرسال رسالتك...',
+    'submission.succeeded': 'شكرًا لك! تم إرسال رسالتك بنجاح. سنرد عليك وفقًا لمستوى الاستعجال الذي اخترته.',
+    'submission.succeededWithDeadline': 'شكرًا لك! تم إرسال رسالتك بنجاح. سنرد عليك في موعد أقصاه {dueBy}.',
+    'submission.failed': 'حدث خطأ أثناء إرسال رسالتك. يرجى المحاولة مرة أخرى أو التواصل معنا مباشرة.',
+
+    // Transport errors, see lib/submission.ts
+    'submission.error.validation': 'لم يتم قبول بعض المعلومات التي أدخلتها. يرجى مراجعة الحقول المميزة.',
+    'submission.error.unauthorized': 'غير مسموح لك بإرسال هذا النموذج.',
+    'submission.error.timeout': 'استغرق الخادم وقتًا طويلًا للرد. يرجى المحاولة مرة أخرى.',
+    'submission.error.rateLimited': 'عدد كبير جدًا من الإرسالات. يرجى الانتظار قليلًا ثم المحاولة مرة أخرى.',
+    'submission.error.server': 'واجه خادمنا مشكلة. يرجى المحاولة مرة أخرى أو التواصل معنا مباشرة.',
+    'submission.error.http': 'تم رفض الإرسال (HTTP {status}).',
+    'submission.error.aborted': 'تم إلغاء الإرسال.',
+    'submission.error.network': 'تعذر الوصول إلى الخادم. يرجى التحقق من اتصالك والمحاولة مرة أخرى.',
+    'submission.error.configuration': 'لم يتم إعداد هذا النموذج لإرسال الرسائل بعد. يرجى التواصل معنا بطريقة أخرى.',
+
+    // Validation
+    'errors.summary': '{count, plural, one {يرجى إصلاح المشكلة التالية} two {يرجى إصلاح المشكلتين التاليتين} few {يرجى إصلاح # مشكلات} many {يرجى إصلاح # مشكلة} other {يرجى إصلاح # مشكلة}}:',
+    'errors.announcement': 'فشل التحقق من النموذج. {count, plural, one {يرجى مراجعة الخطأ التالي وتصحيحه} two {يرجى مراجعة الخطأين التاليين وتصحيحهما} few {يرجى مراجعة # أخطاء وتصحيحها} many {يرجى مراجعة # خطأً وتصحيحها} other {يرجى مراجعة # خطأ وتصحيحها}}:',
+    'validation.required': 'هذا الحقل مطلوب',
+    'validation.minLength': 'يجب ألا يقل عن {min, plural, one {حرف واحد} two {حرفين} few {# أحرف} many {# حرفًا} other {# حرف}}',
+    'validation.maxLength': 'يجب ألا يزيد عن {max, plural, one {حرف واحد} two {حرفين} few {# أحرف} many {# حرفًا} other {# حرف}}',
+    'validation.pattern': 'يرجى إدخال قيمة صحيحة',
+    'validation.email': 'يرجى إدخال بريد إلكتروني صحيح',
+    'validation.email.missingAt': 'يحتاج البريد الإلكتروني إلى @، مثل name@example.com',
+    'validation.email.localPart': 'تحقق من الجزء الذي يسبق @ - يمكن أن يحتوي على أحرف وأرقام و . _ + - ولا يمكن أن يبدأ أو ينتهي بنقطة',
+    'validation.email.domain': 'تحقق من الجزء الذي يلي @ - يجب أن يكون نطاقًا مثل example.com',
+    'validation.email.topLevelDomain': 'يجب أن ينتهي النطاق بامتداد من حرفين على الأقل، مثل .com أو .org',
+    'validation.email.tooLong': 'يمكن أن يتكون البريد الإلكتروني من 254 حرفًا كحد أقصى',
+    'validation.email.disposable': 'يرجى استخدام بريد إلكتروني دائم - لا يمكننا الرد على صناديق البريد المؤقتة',
+    'validation.minSelected': 'يرجى اختيار {min, plural, one {خيار واحد} two {خيارين} few {# خيارات} many {# خيارًا} other {# خيار}} على الأقل',
+    'validation.maxSelected': 'يرجى اختيار {max, plural, one {خيار واحد} two {خيارين} few {# خيارات} many {# خيارًا} other {# خيار}} كحد أقصى',
+    'validation.phone': 'يرجى إدخال رقم هاتف صحيح',
+    'validation.phone.invalidCharacters': 'يمكن أن تحتوي أرقام الهاتف على أرقام ومسافات والرموز + ( ) - . فقط',
+    'validation.phone.unknownCountry': 'أدخل رمز اتصال دولة مدعومًا، مثل +1 أو +971',
+    'validation.phone.tooShort': 'هذا الرقم قصير جدًا بالنسبة إلى {country}. يجب أن يحتوي على {min, plural, one {رقم واحد} two {رقمين} few {# أرقام} many {# رقمًا} other {# رقم}} على الأقل بعد +{dialCode}.',
+    'validation.phone.tooLong': 'هذا الرقم طويل جدًا بالنسبة إلى {country}. يمكن أن يحتوي على {max, plural, one {رقم واحد} two {رقمين} few {# أرقام} many {# رقمًا} other {# رقم}} كحد أقصى بعد +{dialCode}.',
+    'validation.date': 'يرجى إدخال تاريخ صالح',
+    'validation.date.invalid': 'أدخل تاريخًا صحيحًا بالتنسيق الموضح',
+    'validation.date.incompleteTime': 'أدخل التاريخ والوقت معًا',
+    'validation.date.incompleteRange': 'أدخل تاريخ البداية وتاريخ النهاية معًا',
+    'validation.date.min': 'اختر تاريخًا في {date, date} أو بعده',
+    'validation.date.max': 'اختر تاريخًا في {date, date} أو قبله',
+    'validation.date.disabled': '{date, date} غير متاح - يرجى اختيار يوم آخر',
+    'validation.date.order': 'يجب أن يكون تاريخ النهاية في تاريخ البداية أو بعده',
+
+    // Time slots
+    'validation.upcoming': 'لقد مضى هذا الوقت بالفعل - يرجى اختيار وقت لاحق',
+    'validation.slotAvailable': 'لم يعد هذا الوقت متاحًا - يرجى اختيار وقت آخر',
+
+    // Email addresses
+    'email.suggestion': 'هل تقصد {suggestion}؟',
+    'email.suggestionHint': 'اضغط Enter لاستخدامه، أو Escape للإبقاء على ما كتبته.',
+    'email.useSuggestion': 'استخدم {suggestion}',
+    'email.suggestionAccepted': 'تم تغيير البريد الإلكتروني إلى {suggestion}',
+
+    // Phone numbers
+    'phone.countryLabel': 'رمز الدولة',
+    'countries.US': 'الولايات المتحدة',
+    'countries.CA': 'كندا',
+    'countries.GB': 'المملكة المتحدة',
+    'countries.DE': 'ألمانيا',
+    'countries.FR': 'فرنسا',
+    'countries.ES': 'إسبانيا',
+    'countries.MX': 'المكسيك',
+    'countries.IN': 'الهند',
+    'countries.AU': 'أستراليا',
+    'countries.AE': 'الإمارات العربية المتحدة',
+    'countries.SA': 'المملكة العربية السعودية',
+    'countries.EG': 'مصر',
+    'countries.IL': 'إسرائيل',
+
+    // Contact form, see forms/contact-form.ts
+    'contact.title': 'تواصل معنا',
+    'contact.description': 'يسعدنا أن نسمع منك. أرسل لنا رسالة وسنرد عليك في أقرب وقت ممكن.',
+    'contact.ariaLabel': 'نموذج تواصل لإرسال الاستفسارات',
+    'contact.personalInfo': 'المعلومات الشخصية',
+    'contact.messageDetails': 'تفاصيل الرسالة',
+    'contact.newsletterAndReview': 'النشرة البريدية والمراجعة',
+    'contact.firstName.label': 'الاسم الأول',
+    'contact.firstName.required': 'الاسم الأول مطلوب',
+    'contact.lastName.label': 'اسم العائلة',
+    'contact.lastName.required': 'اسم العائلة مطلوب',
+    'contact.email.label': 'البريد الإلكتروني',
+    'contact.email.help': 'لن نشارك بريدك الإلكتروني مع أي شخص',
+    'contact.email.required': 'البريد الإلكتروني مطلوب',
+    'contact.phone.label': 'رقم الهاتف',
+    'contact.phone.help': 'مطلوب إذا كنت تريد أن نتصل بك',
+    'contact.phone.required': 'رقم الهاتف مطلوب عند اختيار التواصل عبر الهاتف',
+    'contact.subject.label': 'الموضوع',
+    'contact.subject.help': 'وصف موجز لاستفسارك',
+    'contact.subject.required': 'الموضوع مطلوب',
+    'contact.message.label': 'الرسالة',
+    'contact.message.help': 'يرجى تقديم تفاصيل استفسارك (10 أحرف على الأقل)',
+    'contact.message.required': 'الرسالة مطلوبة',
+    'contact.message.tooShort': 'يجب ألا تقل الرسالة عن {min, plural, one {حرف واحد} two {حرفين} few {# أحرف} many {# حرفًا} other {# حرف}}',
+    'contact.message.tooLong': 'يجب ألا تزيد الرسالة عن {max, plural, zero {# حرف} one {حرف واحد} two {حرفين} few {# أحرف} many {# حرفًا} other {# حرف}}',
+    'contact.issueStartedAt.label': 'متى بدأت المشكلة؟',
+    'contact.issueStartedAt.help': 'اتركه فارغًا إذا لم يكن استفسارك عن مشكلة',
+    'contact.attachments.label': 'المرفقات',
+    'contact.attachments.help': 'أضف لقطات شاشة أو ملفات PDF تساعد في توضيح استفسارك',
+    'contact.contactMethod.label': 'طريقة التواصل المفضلة',
+    'contact.contactMethod.help': 'اختر الطريقة التي تفضل أن نرد بها على استفسارك',
+    'contact.contactMethod.required': 'يرجى اختيار طريقة التواصل',
+    'contact.contactMethod.email': 'البريد الإلكتروني',
+    'contact.contactMethod.emailDescription': 'سنتواصل معك عبر البريد الإلكتروني',
+    'contact.contactMethod.phone': 'الهاتف',
+    'contact.contactMethod.phoneDescription': 'سنتصل بك على رقم الهاتف الذي قدمته',
+    'contact.contactMethod.either': 'أيهما',
+    'contact.contactMethod.eitherDescription': 'سنستخدم الطريقة الأنسب',
+    'contact.callbackSlot.label': 'حدد موعدًا لمعاودة الاتصال',
+    'contact.callbackSlot.help': 'اختياري - اختر الوقت المناسب لك، أو اتركه فارغًا وسنتصل بك خلال ساعات العمل',
+    'contact.urgency.label': 'مستوى الاستعجال',
+    'contact.urgency.help': 'اختر مستوى استعجال استفسارك لمساعدتنا في ترتيب الأولويات',
+    'contact.urgency.required': 'يرجى اختيار مستوى الاستعجال',
+    'contact.urgency.placeholder': 'اختر مستوى الاستعجال',
+    'contact.urgency.low': 'منخفض - الرد خلال 5 أيام عمل',
+    'contact.urgency.medium': 'متوسط - الرد خلال يومي عمل',
+    'contact.urgency.high': 'مرتفع - الرد خلال 24 ساعة',
+    'contact.urgency.urgent': 'عاجل - الرد خلال 4 ساعات',
+    'contact.newsletter.label': 'اشترك في نشرتنا البريدية',
+    'contact.newsletter.description': 'احصل على آخر الأخبار حول منتجاتنا وخدماتنا. يمكنك إلغاء الاشتراك في أي وقت. (اختياري)'
+  }
+};
+
+export default ar;
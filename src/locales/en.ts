@@ -0,0 +1,276 @@
+import { enUS as dateLocale } from 'date-fns/locale/en-US';
+import type { LocaleDefinition } from '@/lib/i18n';
+
+/**
+ * English messages - the fallback for keys missing from other locales
+ */
+const en: LocaleDefinition = {
+  code: 'en',
+  name: 'English',
+  dir: 'ltr',
+  dateLocale,
+  messages: {
+    // Form chrome
+    'form.skipLink': 'Skip to contact form',
+    'form.instructions': 'This form allows you to send us a message. Navigate through fields using Tab key. Required fields are marked with asterisk and will be announced by screen readers.',
+    'form.requiredNote': 'Fields marked with an asterisk (*) are required.',
+    'form.localeLabel': 'Language',
+
+    // Fields
+    'field.requiredMarker': 'required field',
+    'field.labelRequired': '{label} (required)',
+    'field.labelOptional': '{label} (optional)',
+    'field.placeholder': 'Enter your {label}...',
+    'field.checking': 'Checking {label}...',
+    'field.yes': 'Yes',
+    'field.no': 'No',
+    'field.counter.remaining': '{count, plural, =0 {No characters remaining} one {# character remaining} other {# characters remaining}}',
+    'field.counter.over': '{count, plural, one {# character over the limit} other {# characters over the limit}}',
+    'field.counter.overLimit': 'Over the limit of {max, plural, one {# character} other {# characters}}',
+    'field.counter.withinLimit': 'Back within the limit of {max, plural, one {# character} other {# characters}}',
+    'field.counter.needed': '{count, plural, one {# more character needed} other {# more characters needed}}',
+    'field.counter.count': '{count, plural, one {# character} other {# characters}}',
+    'field.date': '{date, date}',
+    'field.dateTime': '{date, datetime}',
+    'field.dateRange': '{start, date} to {end, date}',
+
+    // Custom select
+    'select.placeholder': 'Select an option',
+    'select.opened': '{count, plural, one {# option available} other {# options available}}. Use arrow keys to navigate.',
+    'select.selected': 'Selected: {label}',
+    'select.cancelled': 'Selection cancelled',
+    'select.filterLabel': 'Filter {label} options',
+    'select.filterPlaceholder': 'Type to filter...',
+    'select.results': '{count, plural, =0 {No matching options} one {# matching option} other {# matching options}}',
+    'select.noResults': 'No matching options',
+    'select.added': '{label} selected.',
+    'select.removed': '{label} removed.',
+    'select.count': '{count, plural, =0 {Nothing selected} other {# selected}}',
+    'select.chipsLabel': 'Selected {label}',
+    'select.remove': 'Remove {label}',
+    'select.loading': 'Loading options...',
+    'select.loadingMore': 'Loading more options...',
+    'select.loaded': '{count, plural, =0 {No options found} one {# option loaded} other {# options loaded}}',
+    'select.loadFailed': 'Options could not be loaded.',
+    'select.retry': 'Try again',
+    'select.empty': 'No options available',
+
+    // Radio cards
+    'radio.other': 'Other (please specify)',
+    'radio.otherInput': 'Please specify',
+
+    // File attachments
+    'file.choose': 'Choose files or drop them here',
+    'file.dropHere': 'Drop to attach',
+    'file.hint.types': 'Accepted types: {types}.',
+    'file.hint.size': 'Maximum size: {size} per file.',
+    'file.hint.count': '{max, plural, one {One file only.} other {Up to # files.}}',
+    'file.listLabel': 'Attached files',
+    'file.rejectedLabel': 'Files not attached',
+    'file.remove': 'Remove {name}',
+    'file.dismiss': 'Dismiss {name}',
+    'file.added': '{name} attached.',
+    'file.removed': '{name} removed.',
+    'file.rejected.type': '{name} was not attached: this type of file is not accepted.',
+    'file.rejected.size': '{name} was not attached: it is larger than {size}.',
+    'file.rejected.count': '{name} was not attached: no more than {max, plural, one {# file} other {# files}} can be attached.',
+    'file.rejected.duplicate': '{name} is already attached.',
+    'file.uploading': 'Uploading {name}',
+    'file.uploadStarted': '{count, plural, one {Uploading # file...} other {Uploading # files...}}',
+    'file.uploaded': '{name} uploaded.',
+
+    // Dates
+    'date.hint': 'For example, {example}',
+    'date.date': 'Date',
+    'date.time': 'Time',
+    'date.start': 'Start date',
+    'date.end': 'End date',
+    'date.openCalendar': 'Choose {label} from a calendar',
+    'date.calendarLabel': '{label} calendar',
+    'date.previousMonth': 'Previous month',
+    'date.nextMonth': 'Next month',
+    'date.selected': '{date, date} selected.',
+    'date.rangeSelected': '{start, date} to {end, date} selected.',
+
+    // Time slots
+    'slot.timeZone': 'Times are shown in your time zone: {timeZone}.',
+    'slot.earlier': 'Show earlier days',
+    'slot.later': 'Show later days',
+    'slot.range': '{start, date} to {end, date}',
+    'slot.showing': 'Showing {start, date} to {end, date}: {count, plural, =0 {no times available} one {# time available} other {# times available}}.',
+    'slot.loading': 'Loading available times...',
+    'slot.loadFailed': 'Available times could not be loaded.',
+    'slot.noneThisDay': 'No times available',
+    'slot.taken': '(taken)',
+    'slot.selected': '{time, datetime} selected.',
+    'slot.pickedSummary': 'Selected: {time, datetime}',
+    'slot.clear': 'Clear',
+    'slot.cleared': 'Time cleared.',
+
+    // Conditional fields
+    'conditions.shown': '{label} field added.',
+    'conditions.hidden': '{label} field removed.',
+    'conditions.required': '{label} is now required.',
+    'conditions.optional': '{label} is now optional.',
+
+    // Drafts
+    'draft.title': 'You have an unsent draft',
+    'draft.description': 'We saved your progress on this form ({savedAt}). Would you like to continue where you left off?',
+    'draft.savedEarlier': 'earlier',
+    'draft.restore': 'Restore draft',
+    'draft.discard': 'Discard draft',
+    'draft.restored': 'Your draft has been restored.',
+    'draft.discarded': 'Your draft has been discarded.',
+
+    // Wizard
+    'steps.progress': 'Form progress',
+    'steps.position': 'Step {current} of {total}',
+    'steps.positionWithTitle': 'Step {current} of {total}: {title}',
+    'steps.completed': 'Completed: ',
+    'steps.current': 'Current: ',
+    'steps.back': 'Back',
+    'steps.next': 'Next',
+
+    // Review
+    'review.title': 'Review your answers',
+    'review.description': 'Please check the information below before sending. Choose Edit to change an answer.',
+    'review.notProvided': 'Not provided',
+    'review.edit': 'Edit',
+    'review.opened': 'Review your answers before sending.',
+    'review.closed': 'Returned to the form.',
+
+    // Submission
+    'submit.send': 'Send Message',
+    'submit.submitting': 'Submitting...',
+    'submit.submittingHint': 'Please wait while we submit your message',
+    'submit.checking': 'Checking...',
+    'submit.checkingHint': 'Please wait while we check your answers',
+    'submit.terms': 'By submitting, you agree to our terms and privacy policy',
+    'status.checking': 'Checking your answers. Please wait.',
+    'status.submitting': 'Form is being submitted. Please wait.',
+    'submission.started': 'Submitting your message...',
+    'submission.succeeded': 'Thank you! Your message has been submitted successfully. We will respond according to your selected urgency level.',
+    'submission.succeededWithDeadline': 'Thank you! Your message has been submitted successfully. We will respond by {dueBy}.',
+    'submission.failed': 'An error occurred while submitting your message. Please try again or contact us directly.',
+
+    // Transport errors, see lib/submission.ts
+    'submission.error.validation': 'Some of the information you entered was not accepted. Please review the highlighted fields.',
+    'submission.error.unauthorized': 'You are not allowed to submit this form.',
+    'submission.error.timeout': 'The server took too long to respond. Please try again.',
+    'submission.error.rateLimited': 'Too many submissions. Please wait a moment and try again.',
+    'submission.error.server': 'Our server ran into a problem. Please try again or contact us directly.',
+    'submission.error.http': 'The submission was rejected (HTTP {status}).',
+    'submission.error.aborted': 'The submission was cancelled.',
+    'submission.error.network': 'We could not reach the server. Please check your connection and try again.',
+    'submission.error.configuration': 'This form has not been set up to send messages yet. Please contact us another way.',
+
+    // Validation
+    'errors.summary': 'Please fix the following {count, plural, one {issue} other {# issues}}:',
+    'errors.announcement': 'Form validation failed. Please review and correct the following {count, plural, one {error} other {# errors}}:',
+    'validation.required': 'This field is required',
+    'validation.minLength': 'Must be at least {min, plural, one {# character} other {# characters}} long',
+    'validation.maxLength': 'Must be at most {max, plural, one {# character} other {# characters}} long',
+    'validation.pattern': 'Please enter a valid value',
+    'validation.email': 'Please enter a valid email address',
+    'validation.email.missingAt': 'An email address needs an @, as in name@example.com',
+    'validation.email.localPart': 'Check the part before the @ - it can use letters, digits and . _ + - but cannot start or end with a dot',
+    'validation.email.domain': 'Check the part after the @ - it should be a domain such as example.com',
+    'validation.email.topLevelDomain': 'The domain must end in an extension of at least two letters, such as .com or .org',
+    'validation.email.tooLong': 'Email addresses can be at most 254 characters long',
+    'validation.email.disposable': 'Please use a permanent email address - we cannot reply to temporary inboxes',
+    'validation.minSelected': 'Please choose at least {min, plural, one {# option} other {# options}}',
+    'validation.maxSelected': 'Please choose no more than {max, plural, one {# option} other {# options}}',
+    'validation.phone': 'Please enter a valid phone number',
+    'validation.phone.invalidCharacters': 'Phone numbers can only contain digits, spaces and the characters + ( ) - .',
+    'validation.phone.unknownCountry': 'Enter a supported country calling code, such as +1 or +44',
+    'validation.phone.tooShort': 'This number is too short for {country}. It needs at least {min, plural, one {# digit} other {# digits}} after +{dialCode}.',
+    'validation.phone.tooLong': 'This number is too long for {country}. It can have at most {max, plural, one {# digit} other {# digits}} after +{dialCode}.',
+    'validation.date': 'Please enter a valid date',
+    'validation.date.invalid': 'Enter a real date in the format shown',
+    'validation.date.incompleteTime': 'Enter both a date and a time',
+    'validation.date.incompleteRange': 'Enter both a start date and an end date',
+    'validation.date.min': 'Choose a date on or after {date, date}',
+    'validation.date.max': 'Choose a date on or before {date, date}',
+    'validation.date.disabled': '{date, date} is not available - please choose another day',
+    'validation.date.order': 'The end date must be on or after the start date',
+
+    // Time slots
+    'validation.upcoming': 'This time has already passed - please choose a later one',
+    'validation.slotAvailable': 'This time is no longer available - please choose another one',
+
+    // Email addresses
+    'email.suggestion': 'Did you mean {suggestion}?',
+    'email.suggestionHint': 'Press Enter to use it, or Escape to keep what you typed.',
+    'email.useSuggestion': 'Use {suggestion}',
+    'email.suggestionAccepted': 'Email address changed to {suggestion}',
+
+    // Phone numbers
+    'phone.countryLabel': 'Country code',
+    'countries.US': 'United States',
+    'countries.CA': 'Canada',
+    'countries.GB': 'United Kingdom',
+    'countries.DE': 'Germany',
+    'countries.FR': 'France',
+    'countries.ES': 'Spain',
+    'countries.MX': 'Mexico',
+    'countries.IN': 'India',
+    'countries.AU': 'Australia',
+    'countries.AE': 'United Arab Emirates',
+    'countries.SA': 'Saudi Arabia',
+    'countries.EG': 'Egypt',
+    'countries.IL': 'Israel',
+
+    // Contact form, see forms/contact-form.ts
+    'contact.title': 'Get in Touch',
+    'contact.description': "We'd love to hear from you. Send us a message and we'll respond as soon as possible.",
+    'contact.ariaLabel': 'Contact form for submitting inquiries',
+    'contact.personalInfo': 'Personal Information',
+    'contact.messageDetails': 'Message Details',
+    'contact.newsletterAndReview': 'Newsletter and Review',
+    'contact.firstName.label': 'First Name',
+    'contact.firstName.required': 'First name is required',
+    'contact.lastName.label': 'Last Name',
+    'contact.lastName.required': 'Last name is required',
+    'contact.email.label': 'Email Address',
+    'contact.email.help': "We'll never share your email with anyone else",
+    'contact.email.required': 'Email address is required',
+    'contact.phone.label': 'Phone Number',
+    'contact.phone.help': 'Required if you would like us to call you',
+    'contact.phone.required': 'Phone number is required when you choose to be contacted by phone',
+    'contact.subject.label': 'Subject',
+    'contact.subject.help': 'Brief description of your inquiry',
+    'contact.subject.required': 'Subject is required',
+    'contact.message.label': 'Message',
+    'contact.message.help': 'Please provide details about your inquiry (minimum 10 characters)',
+    'contact.message.required': 'Message is required',
+    'contact.message.tooShort': 'Message must be at least {min, plural, one {# character} other {# characters}} long',
+    'contact.message.tooLong': 'Message must be at most {max, plural, one {# character} other {# characters}} long',
+    'contact.issueStartedAt.label': 'When did the issue start?',
+    'contact.issueStartedAt.help': 'Leave blank if your inquiry is not about a problem',
+    'contact.attachments.label': 'Attachments',
+    'contact.attachments.help': 'Add screenshots or PDFs that help explain your inquiry',
+    'contact.contactMethod.label': 'Preferred Contact Method',
+    'contact.contactMethod.help': 'Select how you would prefer us to respond to your inquiry',
+    'contact.contactMethod.required': 'Please select a contact method',
+    'contact.contactMethod.email': 'Email',
+    'contact.contactMethod.emailDescription': 'We will contact you via email',
+    'contact.contactMethod.phone': 'Phone',
+    'contact.contactMethod.phoneDescription': 'We will call you on your provided phone number',
+    'contact.contactMethod.either': 'Either',
+    'contact.contactMethod.eitherDescription': 'We will use whichever method is most convenient',
+    'contact.callbackSlot.label': 'Schedule a callback',
+    'contact.callbackSlot.help': 'Optional - pick a time that suits you, or leave it empty and we will call during business hours',
+    'contact.urgency.label': 'Urgency Level',
+    'contact.urgency.help': 'Select the urgency level for your inquiry to help us prioritize our response',
+    'contact.urgency.required': 'Please select an urgency level',
+    'contact.urgency.placeholder': 'Select urgency level',
+    'contact.urgency.low': 'Low - Response within 5 business days',
+    'contact.urgency.medium': 'Medium - Response within 2 business days',
+    'contact.urgency.high': 'High - Response within 24 hours',
+    'contact.urgency.urgent': 'Urgent - Response within 4 hours',
+    'contact.newsletter.label': 'Subscribe to our newsletter',
+    'contact.newsletter.description': 'Receive updates about our products and services. You can unsubscribe at any time. (Optional)'
+  }
+};
+
+export default en;
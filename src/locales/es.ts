@@ -0,0 +1,276 @@
+import { es as dateLocale } from 'date-fns/locale/es';
+import type { LocaleDefinition } from '@/lib/i18n';
+
+/**
+ * Spanish messages
+ */
+const es: LocaleDefinition = {
+  code: 'es',
+  name: 'Español',
+  dir: 'ltr',
+  dateLocale,
+  messages: {
+    // Form chrome
+    'form.skipLink': 'Saltar al formulario de contacto',
+    'form.instructions': 'Este formulario te permite enviarnos un mensaje. Usa la tecla Tab para moverte entre los campos. Los campos obligatorios están marcados con un asterisco y los lectores de pantalla los anuncian.',
+    'form.requiredNote': 'Los campos marcados con un asterisco (*) son obligatorios.',
+    'form.localeLabel': 'Idioma',
+
+    // Fields
+    'field.requiredMarker': 'campo obligatorio',
+    'field.labelRequired': '{label} (obligatorio)',
+    'field.labelOptional': '{label} (opcional)',
+    'field.placeholder': 'Escribe aquí: {label}...',
+    'field.checking': 'Comprobando {label}...',
+    'field.yes': 'Sí',
+    'field.no': 'No',
+    'field.counter.remaining': '{count, plural, =0 {No quedan caracteres} one {Queda # carácter} other {Quedan # caracteres}}',
+    'field.counter.over': '{count, plural, one {# carácter por encima del límite} other {# caracteres por encima del límite}}',
+    'field.counter.overLimit': 'Has superado el límite de {max, plural, one {# carácter} other {# caracteres}}',
+    'field.counter.withinLimit': 'Vuelves a estar dentro del límite de {max, plural, one {# carácter} other {# caracteres}}',
+    'field.counter.needed': '{count, plural, one {Falta # carácter} other {Faltan # caracteres}}',
+    'field.counter.count': '{count, plural, one {# carácter} other {# caracteres}}',
+    'field.date': '{date, date}',
+    'field.dateTime': '{date, datetime}',
+    'field.dateRange': 'Del {start, date} al {end, date}',
+
+    // Custom select
+    'select.placeholder': 'Selecciona una opción',
+    'select.opened': '{count, plural, one {# opción disponible} other {# opciones disponibles}}. Usa las flechas para navegar.',
+    'select.selected': 'Seleccionado: {label}',
+    'select.cancelled': 'Selección cancelada',
+    'select.filterLabel': 'Filtrar opciones de {label}',
+    'select.filterPlaceholder': 'Escribe para filtrar...',
+    'select.results': '{count, plural, =0 {Ninguna opción coincide} one {# opción coincide} other {# opciones coinciden}}',
+    'select.noResults': 'Ninguna opción coincide',
+    'select.added': '{label} seleccionado.',
+    'select.removed': '{label} quitado.',
+    'select.count': '{count, plural, =0 {Nada seleccionado} one {# seleccionado} other {# seleccionados}}',
+    'select.chipsLabel': 'Selección de {label}',
+    'select.remove': 'Quitar {label}',
+    'select.loading': 'Cargando opciones...',
+    'select.loadingMore': 'Cargando más opciones...',
+    'select.loaded': '{count, plural, =0 {No se encontraron opciones} one {# opción cargada} other {# opciones cargadas}}',
+    'select.loadFailed': 'No se pudieron cargar las opciones.',
+    'select.retry': 'Reintentar',
+    'select.empty': 'No hay opciones disponibles',
+
+    // Radio cards
+    'radio.other': 'Otro (especifique)',
+    'radio.otherInput': 'Especifique',
+
+    // File attachments
+    'file.choose': 'Elija archivos o suéltelos aquí',
+    'file.dropHere': 'Suelte para adjuntar',
+    'file.hint.types': 'Tipos aceptados: {types}.',
+    'file.hint.size': 'Tamaño máximo: {size} por archivo.',
+    'file.hint.count': '{max, plural, one {Solo un archivo.} other {Hasta # archivos.}}',
+    'file.listLabel': 'Archivos adjuntos',
+    'file.rejectedLabel': 'Archivos no adjuntados',
+    'file.remove': 'Quitar {name}',
+    'file.dismiss': 'Descartar {name}',
+    'file.added': 'Se adjuntó {name}.',
+    'file.removed': 'Se quitó {name}.',
+    'file.rejected.type': 'No se adjuntó {name}: este tipo de archivo no se acepta.',
+    'file.rejected.size': 'No se adjuntó {name}: supera {size}.',
+    'file.rejected.count': 'No se adjuntó {name}: no se {max, plural, one {puede adjuntar más de # archivo} other {pueden adjuntar más de # archivos}}.',
+    'file.rejected.duplicate': '{name} ya está adjunto.',
+    'file.uploading': 'Subiendo {name}',
+    'file.uploadStarted': '{count, plural, one {Subiendo # archivo...} other {Subiendo # archivos...}}',
+    'file.uploaded': 'Se subió {name}.',
+
+    // Dates
+    'date.hint': 'Por ejemplo, {example}',
+    'date.date': 'Fecha',
+    'date.time': 'Hora',
+    'date.start': 'Fecha de inicio',
+    'date.end': 'Fecha de fin',
+    'date.openCalendar': 'Elegir {label} en un calendario',
+    'date.calendarLabel': 'Calendario de {label}',
+    'date.previousMonth': 'Mes anterior',
+    'date.nextMonth': 'Mes siguiente',
+    'date.selected': 'Se seleccionó el {date, date}.',
+    'date.rangeSelected': 'Se seleccionó del {start, date} al {end, date}.',
+
+    // Time slots
+    'slot.timeZone': 'Las horas se muestran en tu zona horaria: {timeZone}.',
+    'slot.earlier': 'Mostrar días anteriores',
+    'slot.later': 'Mostrar días posteriores',
+    'slot.range': 'Del {start, date} al {end, date}',
+    'slot.showing': 'Del {start, date} al {end, date}: {count, plural, =0 {no hay horas disponibles} one {# hora disponible} other {# horas disponibles}}.',
+    'slot.loading': 'Cargando las horas disponibles...',
+    'slot.loadFailed': 'No se pudieron cargar las horas disponibles.',
+    'slot.noneThisDay': 'No hay horas disponibles',
+    'slot.taken': '(ocupada)',
+    'slot.selected': 'Se seleccionó el {time, datetime}.',
+    'slot.pickedSummary': 'Seleccionada: {time, datetime}',
+    'slot.clear': 'Quitar',
+    'slot.cleared': 'Se quitó la hora.',
+
+    // Conditional fields
+    'conditions.shown': 'Se ha añadido el campo {label}.',
+    'conditions.hidden': 'Se ha quitado el campo {label}.',
+    'conditions.required': '{label} ahora es obligatorio.',
+    'conditions.optional': '{label} ahora es opcional.',
+
+    // Drafts
+    'draft.title': 'Tienes un borrador sin enviar',
+    'draft.description': 'Guardamos tu progreso en este formulario ({savedAt}). ¿Quieres continuar donde lo dejaste?',
+    'draft.savedEarlier': 'anteriormente',
+    'draft.restore': 'Restaurar borrador',
+    'draft.discard': 'Descartar borrador',
+    'draft.restored': 'Se ha restaurado tu borrador.',
+    'draft.discarded': 'Se ha descartado tu borrador.',
+
+    // Wizard
+    'steps.progress': 'Progreso del formulario',
+    'steps.position': 'Paso {current} de {total}',
+    'steps.positionWithTitle': 'Paso {current} de {total}: {title}',
+    'steps.completed': 'Completado: ',
+    'steps.current': 'Actual: ',
+    'steps.back': 'Atrás',
+    'steps.next': 'Siguiente',
+
+    // Review
+    'review.title': 'Revisa tus respuestas',
+    'review.description': 'Comprueba la información antes de enviarla. Elige Editar para cambiar una respuesta.',
+    'review.notProvided': 'Sin indicar',
+    'review.edit': 'Editar',
+    'review.opened': 'Revisa tus respuestas antes de enviarlas.',
+    'review.closed': 'Has vuelto al formulario.',
+
+    // Submission
+    'submit.send': 'Enviar mensaje',
+    'submit.submitting': 'Enviando...',
+    'submit.submittingHint': 'Espera mientras enviamos tu mensaje',
+    'submit.checking': 'Comprobando...',
+    'submit.checkingHint': 'Espera mientras comprobamos tus respuestas',
+    'submit.terms': 'Al enviar, aceptas nuestros términos y nuestra política de privacidad',
+    'status.checking': 'Comprobando tus respuestas. Espera un momento.',
+    'status.submitting': 'Enviando el formulario. Espera un momento.',
+    'submission.started': 'Enviando tu mensaje...',
+    'submission.succeeded': '¡Gracias! Tu mensaje se ha enviado correctamente. Te responderemos según el nivel de urgencia que elegiste.',
+    'submission.succeededWithDeadline': '¡Gracias! Tu mensaje se ha enviado correctamente. Te responderemos antes del {dueBy}.',
+    'submission.failed': 'Se produjo un error al enviar tu mensaje. Inténtalo de nuevo o contacta con nosotros directamente.',
+
+    // Transport errors, see lib/submission.ts
+    'submission.error.validation': 'Parte de la información que introdujiste no se ha aceptado. Revisa los campos marcados.',
+    'submission.error.unauthorized': 'No tienes permiso para enviar este formulario.',
+    'submission.error.timeout': 'El servidor tardó demasiado en responder. Inténtalo de nuevo.',
+    'submission.error.rateLimited': 'Demasiados envíos. Espera un momento e inténtalo de nuevo.',
+    'submission.error.server': 'Nuestro servidor tuvo un problema. Inténtalo de nuevo o contacta con nosotros directamente.',
+    'submission.error.http': 'El envío fue rechazado (HTTP {status}).',
+    'submission.error.aborted': 'El envío se ha cancelado.',
+    'submission.error.network': 'No pudimos conectar con el servidor. Comprueba tu conexión e inténtalo de nuevo.',
+    'submission.error.configuration': 'Este formulario aún no está configurado para enviar mensajes. Ponte en contacto con nosotros de otra forma.',
+
+    // Validation
+    'errors.summary': '{count, plural, one {Corrige el siguiente problema} other {Corrige los siguientes # problemas}}:',
+    'errors.announcement': 'El formulario tiene errores. {count, plural, one {Revisa y corrige el siguiente error} other {Revisa y corrige los siguientes # errores}}:',
+    'validation.required': 'Este campo es obligatorio',
+    'validation.minLength': 'Debe tener al menos {min, plural, one {# carácter} other {# caracteres}}',
+    'validation.maxLength': 'Debe tener como máximo {max, plural, one {# carácter} other {# caracteres}}',
+    'validation.pattern': 'Introduce un valor válido',
+    'validation.email': 'Introduce una dirección de correo electrónico válida',
+    'validation.email.missingAt': 'Una dirección de correo necesita una @, como en nombre@ejemplo.com',
+    'validation.email.localPart': 'Revisa la parte anterior a la @: puede usar letras, números y . _ + - pero no puede empezar ni terminar con un punto',
+    'validation.email.domain': 'Revisa la parte posterior a la @: debe ser un dominio como ejemplo.com',
+    'validation.email.topLevelDomain': 'El dominio debe terminar en una extensión de al menos dos letras, como .com o .es',
+    'validation.email.tooLong': 'Las direcciones de correo pueden tener como máximo 254 caracteres',
+    'validation.email.disposable': 'Usa una dirección de correo permanente: no podemos responder a buzones temporales',
+    'validation.minSelected': 'Elige al menos {min, plural, one {# opción} other {# opciones}}',
+    'validation.maxSelected': 'Elige como máximo {max, plural, one {# opción} other {# opciones}}',
+    'validation.phone': 'Introduce un número de teléfono válido',
+    'validation.phone.invalidCharacters': 'Los números de teléfono solo pueden contener dígitos, espacios y los caracteres + ( ) - .',
+    'validation.phone.unknownCountry': 'Introduce un prefijo de país admitido, como +1 o +34',
+    'validation.phone.tooShort': 'Este número es demasiado corto para {country}. Necesita al menos {min, plural, one {# dígito} other {# dígitos}} después de +{dialCode}.',
+    'validation.phone.tooLong': 'Este número es demasiado largo para {country}. Puede tener como máximo {max, plural, one {# dígito} other {# dígitos}} después de +{dialCode}.',
+    'validation.date': 'Introduce una fecha válida',
+    'validation.date.invalid': 'Introduce una fecha real en el formato indicado',
+    'validation.date.incompleteTime': 'Introduce una fecha y una hora',
+    'validation.date.incompleteRange': 'Introduce una fecha de inicio y una fecha de fin',
+    'validation.date.min': 'Elige una fecha igual o posterior al {date, date}',
+    'validation.date.max': 'Elige una fecha igual o anterior al {date, date}',
+    'validation.date.disabled': 'El {date, date} no está disponible: elige otro día',
+    'validation.date.order': 'La fecha de fin debe ser igual o posterior a la de inicio',
+
+    // Time slots
+    'validation.upcoming': 'Esta hora ya ha pasado: elige una posterior',
+    'validation.slotAvailable': 'Esta hora ya no está disponible: elige otra',
+
+    // Email addresses
+    'email.suggestion': '¿Quisiste decir {suggestion}?',
+    'email.suggestionHint': 'Pulsa Intro para usarla o Escape para mantener lo que escribiste.',
+    'email.useSuggestion': 'Usar {suggestion}',
+    'email.suggestionAccepted': 'Correo electrónico cambiado a {suggestion}',
+
+    // Phone numbers
+    'phone.countryLabel': 'Prefijo del país',
+    'countries.US': 'Estados Unidos',
+    'countries.CA': 'Canadá',
+    'countries.GB': 'Reino Unido',
+    'countries.DE': 'Alemania',
+    'countries.FR': 'Francia',
+    'countries.ES': 'España',
+    'countries.MX': 'México',
+    'countries.IN': 'India',
+    'countries.AU': 'Australia',
+    'countries.AE': 'Emiratos Árabes Unidos',
+    'countries.SA': 'Arabia Saudí',
+    'countries.EG': 'Egipto',
+    'countries.IL': 'Israel',
+
+    // Contact form, see forms/contact-form.ts
+    'contact.title': 'Ponte en contacto',
+    'contact.description': 'Nos encantaría saber de ti. Envíanos un mensaje y te responderemos lo antes posible.',
+    'contact.ariaLabel': 'Formulario de contacto para enviar consultas',
+    'contact.personalInfo': 'Información personal',
+    'contact.messageDetails': 'Detalles del mensaje',
+    'contact.newsletterAndReview': 'Boletín y revisión',
+    'contact.firstName.label': 'Nombre',
+    'contact.firstName.required': 'El nombre es obligatorio',
+    'contact.lastName.label': 'Apellidos',
+    'contact.lastName.required': 'Los apellidos son obligatorios',
+    'contact.email.label': 'Correo electrónico',
+    'contact.email.help': 'Nunca compartiremos tu correo electrónico con nadie',
+    'contact.email.required': 'El correo electrónico es obligatorio',
+    'contact.phone.label': 'Número de teléfono',
+    'contact.phone.help': 'Obligatorio si quieres que te llamemos',
+    'contact.phone.required': 'El número de teléfono es obligatorio si eliges que te contactemos por teléfono',
+    'contact.subject.label': 'Asunto',
+    'contact.subject.help': 'Breve descripción de tu consulta',
+    'contact.subject.required': 'El asunto es obligatorio',
+    'contact.message.label': 'Mensaje',
+    'contact.message.help': 'Describe tu consulta con detalle (mínimo 10 caracteres)',
+    'contact.message.required': 'El mensaje es obligatorio',
+    'contact.message.tooShort': 'El mensaje debe tener al menos {min, plural, one {# carácter} other {# caracteres}}',
+    'contact.message.tooLong': 'El mensaje debe tener como máximo {max, plural, one {# carácter} other {# caracteres}}',
+    'contact.issueStartedAt.label': '¿Cuándo empezó el problema?',
+    'contact.issueStartedAt.help': 'Déjalo en blanco si tu consulta no trata sobre un problema',
+    'contact.attachments.label': 'Archivos adjuntos',
+    'contact.attachments.help': 'Añada capturas de pantalla o PDF que ayuden a explicar su consulta',
+    'contact.contactMethod.label': 'Método de contacto preferido',
+    'contact.contactMethod.help': 'Elige cómo prefieres que respondamos a tu consulta',
+    'contact.contactMethod.required': 'Elige un método de contacto',
+    'contact.contactMethod.email': 'Correo electrónico',
+    'contact.contactMethod.emailDescription': 'Te contactaremos por correo electrónico',
+    'contact.contactMethod.phone': 'Teléfono',
+    'contact.contactMethod.phoneDescription': 'Te llamaremos al número de teléfono que nos indiques',
+    'contact.contactMethod.either': 'Cualquiera',
+    'contact.contactMethod.eitherDescription': 'Usaremos el método que resulte más cómodo',
+    'contact.callbackSlot.label': 'Programar una llamada',
+    'contact.callbackSlot.help': 'Opcional: elige la hora que mejor te venga o déjalo vacío y te llamaremos en horario laboral',
+    'contact.urgency.label': 'Nivel de urgencia',
+    'contact.urgency.help': 'Elige el nivel de urgencia de tu consulta para ayudarnos a priorizar la respuesta',
+    'contact.urgency.required': 'Elige un nivel de urgencia',
+    'contact.urgency.placeholder': 'Selecciona el nivel de urgencia',
+    'contact.urgency.low': 'Baja - Respuesta en 5 días laborables',
+    'contact.urgency.medium': 'Media - Respuesta en 2 días laborables',
+    'contact.urgency.high': 'Alta - Respuesta en 24 horas',
+    'contact.urgency.urgent': 'Urgente - Respuesta en 4 horas',
+    'contact.newsletter.label': 'Suscribirme al boletín',
+    'contact.newsletter.description': 'Recibe novedades sobre nuestros productos y servicios. Puedes darte de baja en cualquier momento. (Opcional)'
+  }
+};
+
+export default es;
@@ -0,0 +1,15 @@
+import type { LocaleDefinition } from '@/lib/i18n';
+import en from './en';
+import es from './es';
+import ar from './ar';
+
+/**
+ * Locales bundled with the app, in the order offered by the locale switcher
+ */
+export const locales: LocaleDefinition[] = [en, es, ar];
+
+/**
+ * Locale used when none of the user's preferred languages is bundled,
+ * and for keys missing from another locale's catalog
+ */
+export const defaultLocale = en;
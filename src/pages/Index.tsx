@@ -1,5 +1,6 @@
 
 import AccessibleForm from "../components/AccessibleForm";
+import LocaleSwitcher from "../components/LocaleSwitcher";
 
 const Index = () => {
   return (
@@ -12,6 +13,9 @@ const Index = () => {
       `}</style>
       
       <div className="max-w-3xl mx-auto">
+        <div className="flex justify-end mb-4">
+          <LocaleSwitcher />
+        </div>
         <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/20 p-8 md:p-12">
           <AccessibleForm />
         </div>
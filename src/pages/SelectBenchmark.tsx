@@ -0,0 +1,139 @@
+import { useMemo, useState } from "react";
+import CustomSelect from "../components/CustomSelect";
+
+const OPTION_COUNT = 10_000;
+const RUNS = 5;
+
+interface BenchmarkResult {
+  name: string;
+  /** Median milliseconds from the click to the frame after the list rendered */
+  medianMs: number;
+  slowestMs: number;
+  /** Option elements in the DOM while open */
+  renderedOptions: number;
+}
+
+const nextFrame = () =>
+  new Promise<void>(resolve => requestAnimationFrame(() => setTimeout(resolve)));
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Opens the select `RUNS` times and times each open until the browser has
+ * rendered the list
+ */
+const measureOpen = async (id: string, name: string): Promise<BenchmarkResult> => {
+  const trigger = document.getElementById(id);
+  const timings: number[] = [];
+  let renderedOptions = 0;
+
+  for (let run = 0; run < RUNS; run++) {
+    const start = performance.now();
+    trigger.click();
+    await nextFrame();
+    timings.push(performance.now() - start);
+    renderedOptions = document.querySelectorAll(`#${id}-listbox [role="option"]`).length;
+
+    trigger.click();
+    await nextFrame();
+  }
+
+  return { name, medianMs: median(timings), slowestMs: Math.max(...timings), renderedOptions };
+};
+
+/**
+ * Development page comparing how long CustomSelect takes to open with
+ * 10,000 options, with and without virtualized rendering
+ */
+const SelectBenchmark = () => {
+  const [virtualValue, setVirtualValue] = useState("");
+  const [fullValue, setFullValue] = useState("");
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const options = useMemo(
+    () => Array.from({ length: OPTION_COUNT }, (_, i) => ({ value: `option-${i}`, label: `Option ${i + 1}` })),
+    []
+  );
+
+  const runBenchmark = async () => {
+    setIsRunning(true);
+    setResults([
+      await measureOpen("benchmark-virtual", "Virtualized"),
+      await measureOpen("benchmark-full", "Every option rendered")
+    ]);
+    setIsRunning(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <main className="max-w-3xl mx-auto space-y-8">
+        <div className="space-y-2">
+          <h1 className="text-2xl font-bold text-gray-900">CustomSelect open time</h1>
+          <p className="text-gray-600">
+            Opens each select {RUNS} times with {OPTION_COUNT.toLocaleString()} options and reports the time from
+            the click to the frame after the list rendered. Turn on CPU throttling in the browser's developer
+            tools to approximate low-end devices.
+          </p>
+        </div>
+
+        <button
+          type="button"
+          onClick={runBenchmark}
+          disabled={isRunning}
+          className="px-6 py-3 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-700 disabled:opacity-60 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+        >
+          {isRunning ? "Running..." : "Run benchmark"}
+        </button>
+
+        <div role="status">
+          {results.length > 0 && (
+            <table className="w-full text-start text-sm">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th scope="col" className="py-2 text-start">Rendering</th>
+                  <th scope="col" className="py-2 text-end">Median open (ms)</th>
+                  <th scope="col" className="py-2 text-end">Slowest open (ms)</th>
+                  <th scope="col" className="py-2 text-end">Options in DOM</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map(result => (
+                  <tr key={result.name} className="border-b border-gray-100">
+                    <th scope="row" className="py-2 text-start font-medium">{result.name}</th>
+                    <td className="py-2 text-end">{result.medianMs.toFixed(1)}</td>
+                    <td className="py-2 text-end">{result.slowestMs.toFixed(1)}</td>
+                    <td className="py-2 text-end">{result.renderedOptions.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <CustomSelect
+            id="benchmark-virtual"
+            label="Virtualized"
+            value={virtualValue}
+            onChange={setVirtualValue}
+            options={options}
+          />
+          <CustomSelect
+            id="benchmark-full"
+            label="Every option rendered"
+            value={fullValue}
+            onChange={setFullValue}
+            options={options}
+            virtualize={false}
+          />
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default SelectBenchmark;
@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Endpoint form submissions are posted to - without it, only development builds can submit, to a mock server */
+  readonly VITE_SUBMISSION_URL?: string;
+  /** Set to "true" to submit to the mock server in a production build, e.g. for a demo */
+  readonly VITE_USE_MOCK_SERVER?: string;
+  /** Endpoint callback slots are loaded from - slots are made up locally when unset */
+  readonly VITE_AVAILABILITY_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}